@@ -13,12 +13,33 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as accountMerge from "../accountMerge.js";
+import type * as achievementRules from "../achievementRules.js";
+import type * as achievements from "../achievements.js";
+import type * as auth from "../auth.js";
+import type * as clips from "../clips.js";
+import type * as crons from "../crons.js";
+import type * as favorites from "../favorites.js";
 import type * as fixUsers from "../fixUsers.js";
 import type * as friends from "../friends.js";
+import type * as gameAchievements from "../gameAchievements.js";
+import type * as gameReviews from "../gameReviews.js";
+import type * as gameSaves from "../gameSaves.js";
+import type * as gameScores from "../gameScores.js";
 import type * as gameSessions from "../gameSessions.js";
 import type * as games from "../games.js";
 import type * as guildMessages from "../guildMessages.js";
 import type * as guilds from "../guilds.js";
+import type * as lzma from "../lzma.js";
+import type * as playlists from "../playlists.js";
+import type * as questProgress from "../questProgress.js";
+import type * as quests from "../quests.js";
+import type * as recommendations from "../recommendations.js";
+import type * as screenshots from "../screenshots.js";
+import type * as swfParser from "../swfParser.js";
+import type * as swfUpload from "../swfUpload.js";
+import type * as uploads from "../uploads.js";
+import type * as userSettings from "../userSettings.js";
 import type * as users from "../users.js";
 import type * as utils from "../utils.js";
 
@@ -31,12 +52,33 @@ import type * as utils from "../utils.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  accountMerge: typeof accountMerge;
+  achievementRules: typeof achievementRules;
+  achievements: typeof achievements;
+  auth: typeof auth;
+  clips: typeof clips;
+  crons: typeof crons;
+  favorites: typeof favorites;
   fixUsers: typeof fixUsers;
   friends: typeof friends;
+  gameAchievements: typeof gameAchievements;
+  gameReviews: typeof gameReviews;
+  gameSaves: typeof gameSaves;
+  gameScores: typeof gameScores;
   gameSessions: typeof gameSessions;
   games: typeof games;
   guildMessages: typeof guildMessages;
   guilds: typeof guilds;
+  lzma: typeof lzma;
+  playlists: typeof playlists;
+  questProgress: typeof questProgress;
+  quests: typeof quests;
+  recommendations: typeof recommendations;
+  screenshots: typeof screenshots;
+  swfParser: typeof swfParser;
+  swfUpload: typeof swfUpload;
+  uploads: typeof uploads;
+  userSettings: typeof userSettings;
   users: typeof users;
   utils: typeof utils;
 }>;
@@ -0,0 +1,566 @@
+/**
+ * Account Merge Helpers
+ * Folds a guest (anonymous) user into a Clerk user when the guest claims their progress.
+ * Used by users.claimGuestProgress.
+ */
+
+import { Doc, Id } from "./_generated/dataModel";
+import { MutationCtx } from "./_generated/server";
+import { evaluateAchievements } from "./achievementRules";
+import { deleteGuestSessions } from "./auth";
+import { refreshGameRating } from "./gameReviews";
+import { calculateLevelFromExp } from "./utils";
+
+// Higher wins when both accounts have a row for the same thing
+const FRIENDSHIP_STATUS_RANK = { rejected: 0, pending: 1, accepted: 2 };
+const GUILD_ROLE_RANK = { member: 0, admin: 1, owner: 2 };
+
+/**
+ * Re-point game sessions from the guest to the target user
+ * If both have an open session, the guest's is closed without credit.
+ */
+async function mergeGameSessions(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const targetActive = await ctx.db
+    .query("game_sessions")
+    .withIndex("by_user", (q) => q.eq("userId", targetId))
+    .filter((q) => q.eq(q.field("completed"), false))
+    .first();
+
+  const sessions = await ctx.db
+    .query("game_sessions")
+    .withIndex("by_user", (q) => q.eq("userId", guestId))
+    .collect();
+
+  for (const session of sessions) {
+    if (!session.completed && targetActive) {
+      await ctx.db.patch(session._id, {
+        userId: targetId,
+        endTime: Date.now(),
+        completed: true,
+        closedReason: "replaced",
+      });
+    } else {
+      await ctx.db.patch(session._id, { userId: targetId });
+    }
+  }
+
+  return sessions.length;
+}
+
+/**
+ * Re-point submitted scores from the guest to the target user
+ */
+async function mergeGameScores(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const scores = await ctx.db
+    .query("game_scores")
+    .withIndex("by_user_and_game", (q) => q.eq("userId", guestId))
+    .collect();
+
+  for (const score of scores) {
+    await ctx.db.patch(score._id, { userId: targetId });
+  }
+
+  return scores.length;
+}
+
+/**
+ * Re-point bridge-reported achievements and saves from the guest to the target user
+ * Achievements the target already has are dropped; for saves the newer one wins.
+ */
+async function mergeGameProgress(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const unlocks = await ctx.db
+    .query("game_achievement_unlocks")
+    .withIndex("by_user_and_game", (q) => q.eq("userId", guestId))
+    .collect();
+
+  for (const unlock of unlocks) {
+    const existing = await ctx.db
+      .query("game_achievement_unlocks")
+      .withIndex("by_user_and_game_and_key", (q) =>
+        q.eq("userId", targetId).eq("gameId", unlock.gameId).eq("achievementKey", unlock.achievementKey)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(unlock._id);
+    } else {
+      await ctx.db.patch(unlock._id, { userId: targetId });
+    }
+  }
+
+  const saves = await ctx.db
+    .query("game_saves")
+    .withIndex("by_user_and_game", (q) => q.eq("userId", guestId))
+    .collect();
+
+  // Bridge saves and each SharedObject slot merge separately
+  for (const save of saves) {
+    const existing = await ctx.db
+      .query("game_saves")
+      .withIndex("by_user_and_game_and_slot", (q) =>
+        q.eq("userId", targetId).eq("gameId", save.gameId).eq("slot", save.slot)
+      )
+      .first();
+
+    if (existing && existing.updatedAt >= save.updatedAt) {
+      await ctx.db.delete(save._id);
+      continue;
+    }
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    await ctx.db.patch(save._id, { userId: targetId });
+  }
+}
+
+/**
+ * Re-point reviews from the guest to the target user
+ * Games both accounts reviewed keep the newer review.
+ */
+async function mergeGameReviews(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const reviews = await ctx.db
+    .query("game_reviews")
+    .withIndex("by_user_and_game", (q) => q.eq("userId", guestId))
+    .collect();
+
+  for (const review of reviews) {
+    const existing = await ctx.db
+      .query("game_reviews")
+      .withIndex("by_user_and_game", (q) =>
+        q.eq("userId", targetId).eq("gameId", review.gameId)
+      )
+      .first();
+
+    if (existing && existing.updatedAt >= review.updatedAt) {
+      await ctx.db.delete(review._id);
+    } else {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+      await ctx.db.patch(review._id, { userId: targetId });
+    }
+
+    await refreshGameRating(ctx, review.gameId);
+  }
+}
+
+/**
+ * Re-point favorites, playlists, screenshots and clips from the guest to the target user
+ * Games both accounts starred keep the target's favorite.
+ */
+async function mergeLibrary(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const favorites = await ctx.db
+    .query("favorites")
+    .withIndex("by_user_and_game", (q) => q.eq("userId", guestId))
+    .collect();
+
+  for (const favorite of favorites) {
+    const existing = await ctx.db
+      .query("favorites")
+      .withIndex("by_user_and_game", (q) =>
+        q.eq("userId", targetId).eq("gameId", favorite.gameId)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(favorite._id);
+    } else {
+      await ctx.db.patch(favorite._id, { userId: targetId });
+    }
+  }
+
+  const playlists = await ctx.db
+    .query("playlists")
+    .withIndex("by_owner", (q) => q.eq("ownerId", guestId))
+    .collect();
+
+  for (const playlist of playlists) {
+    await ctx.db.patch(playlist._id, { ownerId: targetId });
+  }
+
+  const screenshots = await ctx.db
+    .query("screenshots")
+    .withIndex("by_user_and_takenAt", (q) => q.eq("userId", guestId))
+    .collect();
+
+  const clips = await ctx.db
+    .query("clips")
+    .withIndex("by_user_and_createdAt", (q) => q.eq("userId", guestId))
+    .collect();
+
+  for (const doc of [...screenshots, ...clips]) {
+    await ctx.db.patch(doc._id, { userId: targetId });
+  }
+}
+
+/**
+ * Re-point unlocked achievements from the guest to the target user
+ * Achievements both accounts unlocked keep the earlier unlock. Returns the reward XP
+ * those duplicates paid twice, which the merged XP total must not keep.
+ */
+async function mergeAchievements(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const unlocks = await ctx.db
+    .query("user_achievements")
+    .withIndex("by_user", (q) => q.eq("userId", guestId))
+    .collect();
+
+  let duplicateExpReward = 0;
+  for (const unlock of unlocks) {
+    const existing = await ctx.db
+      .query("user_achievements")
+      .withIndex("by_user_and_achievement", (q) =>
+        q.eq("userId", targetId).eq("achievementId", unlock.achievementId)
+      )
+      .first();
+
+    if (!existing) {
+      await ctx.db.patch(unlock._id, { userId: targetId });
+      continue;
+    }
+
+    if (unlock.unlockedAt < existing.unlockedAt) {
+      await ctx.db.patch(existing._id, { unlockedAt: unlock.unlockedAt });
+    }
+    await ctx.db.delete(unlock._id);
+
+    const achievement = await ctx.db.get(unlock.achievementId);
+    duplicateExpReward += achievement?.expReward ?? 0;
+  }
+
+  return duplicateExpReward;
+}
+
+/**
+ * Re-point quest progress from the guest to the target user
+ * Quests both accounts progressed keep the further-along row.
+ */
+async function mergeQuests(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const guestQuests = await ctx.db
+    .query("user_quests")
+    .withIndex("by_user", (q) => q.eq("userId", guestId))
+    .collect();
+
+  for (const guestQuest of guestQuests) {
+    const existing = await ctx.db
+      .query("user_quests")
+      .withIndex("by_user_and_quest", (q) =>
+        q.eq("userId", targetId).eq("activeQuestId", guestQuest.activeQuestId)
+      )
+      .first();
+
+    if (!existing) {
+      await ctx.db.patch(guestQuest._id, { userId: targetId });
+      continue;
+    }
+
+    // Never let a merge re-open a reward the target already claimed
+    if (existing.claimedAt === undefined && guestQuest.progress > existing.progress) {
+      await ctx.db.patch(existing._id, {
+        progress: guestQuest.progress,
+        completedAt: guestQuest.completedAt,
+        claimedAt: guestQuest.claimedAt,
+      });
+    }
+    await ctx.db.delete(guestQuest._id);
+  }
+}
+
+/**
+ * Re-point friendships from the guest to the target user
+ * Friendships between the two accounts are dropped; duplicates keep the strongest status.
+ */
+async function mergeFriendships(
+  ctx: MutationCtx,
+  guestId: Id<"users">,
+  targetId: Id<"users">
+) {
+  const asRequester = await ctx.db
+    .query("friendships")
+    .withIndex("by_requester", (q) => q.eq("requesterId", guestId))
+    .collect();
+
+  const asRecipient = await ctx.db
+    .query("friendships")
+    .withIndex("by_recipient", (q) => q.eq("recipientId", guestId))
+    .collect();
+
+  let moved = 0;
+
+  for (const friendship of [...asRequester, ...asRecipient]) {
+    const requesterId = friendship.requesterId === guestId ? targetId : friendship.requesterId;
+    const recipientId = friendship.recipientId === guestId ? targetId : friendship.recipientId;
+
+    // The guest and the Clerk account were friends with each other
+    if (requesterId === recipientId) {
+      await ctx.db.delete(friendship._id);
+      continue;
+    }
+
+    const otherId = requesterId === targetId ? recipientId : requesterId;
+
+    // Look for an existing friendship between the target and the same user (either direction)
+    const existing =
+      (await ctx.db
+        .query("friendships")
+        .withIndex("by_requester_and_recipient", (q) =>
+          q.eq("requesterId", targetId).eq("recipientId", otherId)
+        )
+        .first()) ??
+      (await ctx.db
+        .query("friendships")
+        .withIndex("by_requester_and_recipient", (q) =>
+          q.eq("requesterId", otherId).eq("recipientId", targetId)
+        )
+        .first());
+
+    if (existing) {
+      if (FRIENDSHIP_STATUS_RANK[friendship.status] > FRIENDSHIP_STATUS_RANK[existing.status]) {
+        await ctx.db.delete(existing._id);
+      } else {
+        await ctx.db.delete(friendship._id);
+        continue;
+      }
+    }
+
+    await ctx.db.patch(friendship._id, { requesterId, recipientId });
+    moved++;
+  }
+
+  return moved;
+}
+
+/**
+ * Remove a membership, handing ownership on or deleting the guild if it empties
+ * Mirrors guilds.leaveGuild.
+ */
+async function removeGuildMembership(
+  ctx: MutationCtx,
+  guild: Doc<"guilds">,
+  membership: Doc<"guild_members">,
+  memberExp: number
+) {
+  const members = await ctx.db
+    .query("guild_members")
+    .withIndex("by_guild", (q) => q.eq("guildId", guild._id))
+    .collect();
+
+  await ctx.db.delete(membership._id);
+
+  const remaining = members.filter((m) => m._id !== membership._id);
+
+  if (remaining.length === 0) {
+    // Last member gone, delete the guild and its chat
+    const messages = await ctx.db
+      .query("guild_messages")
+      .withIndex("by_guild", (q) => q.eq("guildId", guild._id))
+      .collect();
+
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+
+    await ctx.db.delete(guild._id);
+    return;
+  }
+
+  const updates: Partial<Doc<"guilds">> = {
+    memberCount: guild.memberCount - 1,
+    totalExp: guild.totalExp - memberExp,
+    level: calculateLevelFromExp(guild.totalExp - memberExp).level,
+  };
+
+  if (membership.role === "owner") {
+    // Transfer ownership to first admin or first member
+    const newOwner = remaining.find((m) => m.role === "admin") || remaining[0];
+    updates.ownerId = newOwner.userId;
+    await ctx.db.patch(newOwner._id, { role: "owner" });
+  }
+
+  await ctx.db.patch(guild._id, updates);
+}
+
+/**
+ * Move the guest's guild membership onto the target user
+ * If both are in guilds, the target keeps theirs and the guest's membership is removed.
+ * Returns the target's guild after the merge.
+ */
+async function mergeGuildMembership(
+  ctx: MutationCtx,
+  guest: Doc<"users">,
+  target: Doc<"users">
+): Promise<Id<"guilds"> | undefined> {
+  const guestExp = guest.exp ?? 0;
+  const targetExp = target.exp ?? 0;
+
+  const guestGuild = guest.guildId ? await ctx.db.get(guest.guildId) : null;
+  const guestMembership = guestGuild
+    ? await ctx.db
+        .query("guild_members")
+        .withIndex("by_guild_and_user", (q) =>
+          q.eq("guildId", guestGuild._id).eq("userId", guest._id)
+        )
+        .first()
+    : null;
+
+  const targetGuild = target.guildId ? await ctx.db.get(target.guildId) : null;
+
+  if (!guestGuild || !guestMembership) {
+    // Only the target is in a guild: it gains the guest's XP
+    if (targetGuild) {
+      await ctx.db.patch(targetGuild._id, {
+        totalExp: targetGuild.totalExp + guestExp,
+        level: calculateLevelFromExp(targetGuild.totalExp + guestExp).level,
+      });
+    }
+    return targetGuild?._id;
+  }
+
+  if (!targetGuild) {
+    // Only the guest is in a guild: the membership moves over with the target's XP
+    await ctx.db.patch(guestMembership._id, { userId: target._id });
+    await ctx.db.patch(guestGuild._id, {
+      ownerId: guestGuild.ownerId === guest._id ? target._id : guestGuild.ownerId,
+      totalExp: guestGuild.totalExp + targetExp,
+      level: calculateLevelFromExp(guestGuild.totalExp + targetExp).level,
+    });
+    return guestGuild._id;
+  }
+
+  if (guestGuild._id === targetGuild._id) {
+    // Same guild: keep one membership with the higher role
+    const targetMembership = await ctx.db
+      .query("guild_members")
+      .withIndex("by_guild_and_user", (q) =>
+        q.eq("guildId", targetGuild._id).eq("userId", target._id)
+      )
+      .first();
+
+    if (targetMembership && GUILD_ROLE_RANK[guestMembership.role] > GUILD_ROLE_RANK[targetMembership.role]) {
+      await ctx.db.patch(targetMembership._id, { role: guestMembership.role });
+    }
+
+    await ctx.db.delete(guestMembership._id);
+    await ctx.db.patch(targetGuild._id, {
+      ownerId: targetGuild.ownerId === guest._id ? target._id : targetGuild.ownerId,
+      memberCount: targetGuild.memberCount - 1,
+    });
+    return targetGuild._id;
+  }
+
+  // Different guilds: the guest leaves theirs, the target's guild gains the guest's XP
+  await removeGuildMembership(ctx, guestGuild, guestMembership, guestExp);
+  await ctx.db.patch(targetGuild._id, {
+    totalExp: targetGuild.totalExp + guestExp,
+    level: calculateLevelFromExp(targetGuild.totalExp + guestExp).level,
+  });
+  return targetGuild._id;
+}
+
+/**
+ * Re-point the guest's guild chat messages (and their denormalized sender info)
+ */
+async function mergeGuildMessages(
+  ctx: MutationCtx,
+  guest: Doc<"users">,
+  target: Doc<"users">
+) {
+  const messages = await ctx.db
+    .query("guild_messages")
+    .withIndex("by_user", (q) => q.eq("userId", guest._id))
+    .collect();
+
+  for (const message of messages) {
+    await ctx.db.patch(message._id, {
+      userId: target._id,
+      username: target.username ?? message.username,
+      avatarUrl: target.avatarUrl,
+    });
+  }
+
+  return messages.length;
+}
+
+/**
+ * Merge a guest user into a Clerk user and delete the guest
+ */
+export async function mergeGuestIntoUser(
+  ctx: MutationCtx,
+  guest: Doc<"users">,
+  target: Doc<"users">
+) {
+  // Messages first, before any guild cleanup can delete the guest's chat
+  const messagesMoved = await mergeGuildMessages(ctx, guest, target);
+  const sessionsMoved = await mergeGameSessions(ctx, guest._id, target._id);
+  const scoresMoved = await mergeGameScores(ctx, guest._id, target._id);
+  await mergeGameProgress(ctx, guest._id, target._id);
+  await mergeGameReviews(ctx, guest._id, target._id);
+  await mergeLibrary(ctx, guest._id, target._id);
+  const duplicateExpReward = await mergeAchievements(ctx, guest._id, target._id);
+  await mergeQuests(ctx, guest._id, target._id);
+  const friendshipsMoved = await mergeFriendships(ctx, guest._id, target._id);
+  const guildId = await mergeGuildMembership(ctx, guest, target);
+
+  const exp = Math.max(0, (target.exp ?? 0) + (guest.exp ?? 0) - duplicateExpReward);
+  const totalPlaytime = (target.totalPlaytime ?? 0) + (guest.totalPlaytime ?? 0);
+
+  await ctx.db.patch(target._id, {
+    exp,
+    level: calculateLevelFromExp(exp).level,
+    totalPlaytime,
+    createdAt: Math.min(target.createdAt ?? Date.now(), guest.createdAt ?? Date.now()),
+    guildId,
+    lastSeen: Date.now(),
+  });
+
+  await deleteGuestSessions(ctx, guest._id);
+  await ctx.db.delete(guest._id);
+
+  // Combined stats may cross thresholds neither account reached alone
+  await evaluateAchievements(ctx, target._id, [
+    "level",
+    "exp",
+    "playtime",
+    "distinctGames",
+    "friends",
+    "guildJoined",
+    "guildMessages",
+  ]);
+
+  return {
+    exp,
+    totalPlaytime,
+    sessionsMoved,
+    scoresMoved,
+    friendshipsMoved,
+    messagesMoved,
+  };
+}
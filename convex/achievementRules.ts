@@ -0,0 +1,158 @@
+/**
+ * Achievement Rule Engine
+ * Evaluates achievement rules for a user after the mutations that can move their stats.
+ * Used by gameSessions.endSession, friends.acceptFriendRequest,
+ * guilds.createGuild/joinGuild and guildMessages.sendMessage.
+ */
+
+import { Doc, Id } from "./_generated/dataModel";
+import { MutationCtx } from "./_generated/server";
+import { calculateLevelFromExp } from "./utils";
+
+export type AchievementRuleType = Doc<"achievements">["rule"]["type"];
+
+// XP rewards can unlock level/exp achievements, which can award more XP
+const MAX_EVALUATION_PASSES = 3;
+
+/**
+ * Compute the current value of a user's stat for a rule type
+ */
+async function getStatValue(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  type: AchievementRuleType
+): Promise<number> {
+  switch (type) {
+    case "level":
+      return calculateLevelFromExp(user.exp ?? 0).level;
+
+    case "exp":
+      return user.exp ?? 0;
+
+    case "playtime":
+      return user.totalPlaytime ?? 0;
+
+    case "distinctGames": {
+      const sessions = await ctx.db
+        .query("game_sessions")
+        .withIndex("by_user", (q) => q.eq("userId", user._id))
+        .collect();
+      return new Set(sessions.map((s) => s.gameId)).size;
+    }
+
+    case "friends": {
+      const asRequester = await ctx.db
+        .query("friendships")
+        .withIndex("by_requester", (q) => q.eq("requesterId", user._id))
+        .filter((q) => q.eq(q.field("status"), "accepted"))
+        .collect();
+
+      const asRecipient = await ctx.db
+        .query("friendships")
+        .withIndex("by_recipient_and_status", (q) =>
+          q.eq("recipientId", user._id).eq("status", "accepted")
+        )
+        .collect();
+
+      return asRequester.length + asRecipient.length;
+    }
+
+    case "guildJoined":
+      return user.guildId ? 1 : 0;
+
+    case "guildMessages": {
+      const messages = await ctx.db
+        .query("guild_messages")
+        .withIndex("by_user", (q) => q.eq("userId", user._id))
+        .collect();
+      return messages.length;
+    }
+  }
+}
+
+/**
+ * Award achievement XP to a user and their guild
+ */
+async function awardAchievementExp(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  expAmount: number
+) {
+  const newExp = (user.exp ?? 0) + expAmount;
+
+  await ctx.db.patch(user._id, {
+    exp: newExp,
+    level: calculateLevelFromExp(newExp).level,
+  });
+
+  if (user.guildId) {
+    const guild = await ctx.db.get(user.guildId);
+    if (guild) {
+      const newGuildExp = guild.totalExp + expAmount;
+      await ctx.db.patch(user.guildId, {
+        totalExp: newGuildExp,
+        level: calculateLevelFromExp(newGuildExp).level,
+      });
+    }
+  }
+}
+
+/**
+ * Unlock every achievement of the given rule types the user now qualifies for
+ * Returns the newly unlocked achievements.
+ */
+export async function evaluateAchievements(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  ruleTypes: AchievementRuleType[]
+): Promise<Doc<"achievements">[]> {
+  const unlocked = await ctx.db
+    .query("user_achievements")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const unlockedIds = new Set(unlocked.map((u) => u.achievementId));
+
+  const achievements = await ctx.db.query("achievements").collect();
+  const newlyUnlocked: Doc<"achievements">[] = [];
+  let types = ruleTypes;
+
+  for (let pass = 0; pass < MAX_EVALUATION_PASSES && types.length > 0; pass++) {
+    const user = await ctx.db.get(userId);
+    if (!user) break;
+
+    const candidates = achievements.filter(
+      (a) => types.includes(a.rule.type) && !unlockedIds.has(a._id)
+    );
+
+    // Compute each stat at most once per pass
+    const statValues = new Map<AchievementRuleType, number>();
+    let expReward = 0;
+
+    for (const achievement of candidates) {
+      if (!statValues.has(achievement.rule.type)) {
+        statValues.set(achievement.rule.type, await getStatValue(ctx, user, achievement.rule.type));
+      }
+
+      if (statValues.get(achievement.rule.type)! < achievement.rule.threshold) continue;
+
+      await ctx.db.insert("user_achievements", {
+        userId,
+        achievementId: achievement._id,
+        unlockedAt: Date.now(),
+      });
+
+      unlockedIds.add(achievement._id);
+      newlyUnlocked.push(achievement);
+      expReward += achievement.expReward;
+    }
+
+    if (expReward === 0) break;
+
+    await awardAchievementExp(ctx, user, expReward);
+
+    // Rewards only move XP, so only XP-based rules can newly pass
+    types = ["level", "exp"];
+  }
+
+  return newlyUnlocked;
+}
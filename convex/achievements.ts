@@ -0,0 +1,137 @@
+/**
+ * Achievements Module
+ * Achievement definitions and each user's unlocked achievements.
+ * Unlocking happens server-side in achievementRules.ts.
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthenticatedUser } from "./auth";
+import { AchievementRuleType } from "./achievementRules";
+
+// ========== QUERIES ==========
+
+/**
+ * Get all achievements with the caller's unlock state
+ * unlockedAt is null for locked achievements (and for signed-out callers).
+ */
+export const getAchievements = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const achievements = await ctx.db.query("achievements").collect();
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+
+    const unlocked = user
+      ? await ctx.db
+          .query("user_achievements")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .collect()
+      : [];
+
+    const unlockedAt = new Map(unlocked.map((u) => [u.achievementId, u.unlockedAt]));
+
+    return achievements.map((achievement) => ({
+      ...achievement,
+      unlockedAt: unlockedAt.get(achievement._id) ?? null,
+    }));
+  },
+});
+
+// ========== MUTATIONS ==========
+
+// Seed the default achievement definitions (safe to re-run; updates by key)
+export const seedAchievements = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const achievements: {
+      key: string;
+      name: string;
+      description: string;
+      icon: string;
+      expReward: number;
+      rule: { type: AchievementRuleType; threshold: number };
+    }[] = [
+      {
+        key: "level_5",
+        name: "Gamer",
+        description: "Reach Level 5",
+        icon: "🎮",
+        expReward: 50,
+        rule: { type: "level", threshold: 5 },
+      },
+      {
+        key: "level_10",
+        name: "Pro Gamer",
+        description: "Reach Level 10",
+        icon: "⭐",
+        expReward: 200,
+        rule: { type: "level", threshold: 10 },
+      },
+      {
+        key: "exp_1000",
+        name: "Experienced",
+        description: "Earn 1000 XP",
+        icon: "💪",
+        expReward: 50,
+        rule: { type: "exp", threshold: 1000 },
+      },
+      {
+        key: "playtime_60",
+        name: "Dedicated",
+        description: "Play 1 Hour",
+        icon: "⏰",
+        expReward: 50,
+        rule: { type: "playtime", threshold: 60 },
+      },
+      {
+        key: "distinct_games_10",
+        name: "Explorer",
+        description: "Play 10 Different Games",
+        icon: "🗺️",
+        expReward: 100,
+        rule: { type: "distinctGames", threshold: 10 },
+      },
+      {
+        key: "friends_1",
+        name: "Friendly",
+        description: "Make Your First Friend",
+        icon: "🤝",
+        expReward: 25,
+        rule: { type: "friends", threshold: 1 },
+      },
+      {
+        key: "guild_joined",
+        name: "Guildmate",
+        description: "Join a Guild",
+        icon: "🛡️",
+        expReward: 25,
+        rule: { type: "guildJoined", threshold: 1 },
+      },
+      {
+        key: "guild_message_1",
+        name: "Hello Guild",
+        description: "Send Your First Guild Message",
+        icon: "💬",
+        expReward: 10,
+        rule: { type: "guildMessages", threshold: 1 },
+      },
+    ];
+
+    for (const achievement of achievements) {
+      const existing = await ctx.db
+        .query("achievements")
+        .withIndex("by_key", (q) => q.eq("key", achievement.key))
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, achievement);
+      } else {
+        await ctx.db.insert("achievements", achievement);
+      }
+    }
+
+    return "Achievements seeded successfully";
+  },
+});
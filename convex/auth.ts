@@ -0,0 +1,190 @@
+/**
+ * Authentication Module
+ * Resolves the calling user for queries and mutations on the server.
+ *
+ * Callers are identified either by their Clerk identity (ctx.auth, see
+ * auth.config.js) or, for guests, by an opaque session token issued by
+ * users.createOrGetProfile and tracked in the guest_sessions table.
+ * Client-supplied user ids are never trusted.
+ */
+
+import { Doc, Id } from "./_generated/dataModel";
+import { MutationCtx, QueryCtx } from "./_generated/server";
+
+// Guest sessions stay valid for 30 days after they were issued
+const GUEST_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ========== GUEST SESSIONS ==========
+
+/**
+ * Encode bytes as base64url (no padding)
+ */
+function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  let binary = "";
+  new Uint8Array(bytes).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Hash a session token for storage/lookup
+ */
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toBase64Url(digest);
+}
+
+/**
+ * Find the live (not revoked, not expired) session for a token
+ */
+async function findGuestSession(
+  ctx: QueryCtx | MutationCtx,
+  token: string
+): Promise<Doc<"guest_sessions"> | null> {
+  const tokenHash = await hashToken(token);
+  const session = await ctx.db
+    .query("guest_sessions")
+    .withIndex("by_tokenHash", (q) => q.eq("tokenHash", tokenHash))
+    .first();
+
+  if (!session || session.revokedAt !== undefined) return null;
+  if (session.expiresAt <= Date.now()) return null;
+
+  return session;
+}
+
+/**
+ * Create a new session for a guest user and return its token
+ * The raw token is only ever returned to the client; the table stores its hash.
+ */
+export async function createGuestSession(
+  ctx: MutationCtx,
+  userId: Id<"users">
+): Promise<string> {
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const now = Date.now();
+
+  await ctx.db.insert("guest_sessions", {
+    userId,
+    tokenHash: await hashToken(token),
+    createdAt: now,
+    expiresAt: now + GUEST_SESSION_TTL_MS,
+  });
+
+  return token;
+}
+
+/**
+ * Revoke a guest session token
+ * Returns the user the session belonged to, or null if it was not live.
+ */
+export async function revokeGuestSession(
+  ctx: MutationCtx,
+  token: string
+): Promise<Id<"users"> | null> {
+  const session = await findGuestSession(ctx, token);
+  if (!session) return null;
+
+  await ctx.db.patch(session._id, { revokedAt: Date.now() });
+  return session.userId;
+}
+
+/**
+ * Delete every session belonging to a user (e.g. on account deletion)
+ */
+export async function deleteGuestSessions(ctx: MutationCtx, userId: Id<"users">) {
+  const sessions = await ctx.db
+    .query("guest_sessions")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  for (const session of sessions) {
+    await ctx.db.delete(session._id);
+  }
+}
+
+/**
+ * Resolve the guest user a session token belongs to
+ * Unlike getAuthenticatedUser this ignores any Clerk identity on the request.
+ */
+export async function getGuestFromSession(
+  ctx: QueryCtx | MutationCtx,
+  token: string
+): Promise<Doc<"users"> | null> {
+  const session = await findGuestSession(ctx, token);
+  if (!session) return null;
+
+  const user = await ctx.db.get(session.userId);
+  return user && user.isAnonymous ? user : null;
+}
+
+// ========== CALLER RESOLUTION ==========
+
+/**
+ * Resolve the calling user
+ * Clerk identity takes precedence; guests are resolved from their session token.
+ */
+export async function getAuthenticatedUser(
+  ctx: QueryCtx | MutationCtx,
+  sessionToken?: string
+): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+
+  if (identity) {
+    // Clerk users store their Clerk user ID (the JWT subject) in userId
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", identity.subject))
+      .first();
+
+    return user && !user.isAnonymous ? user : null;
+  }
+
+  if (!sessionToken) return null;
+
+  return getGuestFromSession(ctx, sessionToken);
+}
+
+/**
+ * Resolve the calling user or throw if the caller is not signed in
+ */
+export async function requireUser(
+  ctx: QueryCtx | MutationCtx,
+  sessionToken?: string
+): Promise<Doc<"users">> {
+  const user = await getAuthenticatedUser(ctx, sessionToken);
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+  return user;
+}
+
+/**
+ * Resolve the calling user or throw if they are not a signed-in admin
+ * Admins must be Clerk users; guest sessions never carry admin rights.
+ */
+export async function requireAdmin(
+  ctx: QueryCtx | MutationCtx,
+  sessionToken?: string
+): Promise<Doc<"users">> {
+  const user = await requireUser(ctx, sessionToken);
+  if (user.isAnonymous || user.role !== "admin") {
+    throw new Error("Admin access required");
+  }
+  return user;
+}
+
+/**
+ * Reject calls where a deprecated user id argument names someone other than the caller
+ * Kept so older clients that still send userId/ownerId/kickerId keep working.
+ */
+export function assertActingAs(
+  user: Doc<"users">,
+  claimedId: Id<"users"> | string | undefined
+) {
+  if (claimedId === undefined) return;
+  if (claimedId !== user._id && claimedId !== user.userId) {
+    throw new Error("Cannot act on behalf of another user");
+  }
+}
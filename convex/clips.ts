@@ -0,0 +1,167 @@
+/**
+ * Clips Module
+ * Gameplay recordings from the Ruffle canvas, shown on the game page and
+ * shareable to guild chat
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthenticatedUser, requireUser } from "./auth";
+import { isUploadClaimed } from "./uploads";
+
+const MAX_CLIP_SECONDS = 60;
+const MAX_CLIP_BYTES = 50 * 1024 * 1024;
+const MAX_CLIPS_PER_USER = 50;
+
+// ========== QUERIES ==========
+
+/**
+ * Get a game's recent clips with video URLs and who recorded them
+ */
+export const getGameClips = query({
+  args: {
+    gameId: v.id("games"),
+    sessionToken: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId);
+    if (!game || game.isPublished === false) return [];
+
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+
+    const clips = await ctx.db
+      .query("clips")
+      .withIndex("by_game_and_createdAt", (q) => q.eq("gameId", args.gameId))
+      .order("desc")
+      .take(Math.min(args.limit ?? 12, 50));
+
+    return await Promise.all(
+      clips.map(async ({ storageId, ...clip }) => {
+        const author = await ctx.db.get(clip.userId);
+        return {
+          ...clip,
+          url: await ctx.storage.getUrl(storageId),
+          username: author?.username ?? "Unknown",
+          isMine: clip.userId === user?._id,
+        };
+      })
+    );
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Get an upload URL for a clip video
+ */
+export const generateUploadUrl = mutation({
+  args: { sessionToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, args.sessionToken);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Save an uploaded recording as a clip
+ * trimStart/trimEnd pick the part of the recording that plays back; the full
+ * recording is stored and served.
+ */
+export const saveClip = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    sessionId: v.optional(v.id("game_sessions")),
+    storageId: v.id("_storage"),
+    title: v.optional(v.string()),
+    duration: v.number(),
+    trimStart: v.number(),
+    trimEnd: v.number(),
+    hasAudio: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) {
+      throw new Error("Clip upload not found");
+    }
+
+    if (!file.contentType?.startsWith("video/") || file.size > MAX_CLIP_BYTES) {
+      throw new Error("Clips must be videos under 50 MB");
+    }
+    if (await isUploadClaimed(ctx, args.storageId)) {
+      throw new Error("This upload is already in use");
+    }
+
+    // Allow a little slack for the recorder stopping after the limit
+    if (args.duration <= 0 || args.duration > MAX_CLIP_SECONDS + 1) {
+      throw new Error(`Clips can be at most ${MAX_CLIP_SECONDS} seconds`);
+    }
+    if (args.trimStart < 0 || args.trimEnd > args.duration || args.trimEnd - args.trimStart < 1) {
+      throw new Error("Trimmed clips must be at least 1 second long");
+    }
+
+    const title = args.title?.trim();
+    if (title && title.length > 80) {
+      throw new Error("Title too long (max 80 characters)");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const existing = await ctx.db
+      .query("clips")
+      .withIndex("by_user_and_createdAt", (q) => q.eq("userId", user._id))
+      .take(MAX_CLIPS_PER_USER);
+
+    if (existing.length >= MAX_CLIPS_PER_USER) {
+      throw new Error(`You can keep up to ${MAX_CLIPS_PER_USER} clips. Delete some to make room.`);
+    }
+
+    // Only link sessions the caller actually played
+    const session = args.sessionId ? await ctx.db.get(args.sessionId) : null;
+
+    const clipId = await ctx.db.insert("clips", {
+      userId: user._id,
+      gameId: args.gameId,
+      sessionId: session?.userId === user._id ? session._id : undefined,
+      storageId: args.storageId,
+      title: title || undefined,
+      duration: args.duration,
+      trimStart: args.trimStart,
+      trimEnd: args.trimEnd,
+      hasAudio: args.hasAudio,
+      createdAt: Date.now(),
+    });
+
+    return { clipId };
+  },
+});
+
+/**
+ * Delete one of the caller's clips
+ * Guild messages that shared it show it as removed.
+ */
+export const deleteClip = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    clipId: v.id("clips"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const clip = await ctx.db.get(args.clipId);
+    if (!clip || clip.userId !== user._id) {
+      throw new Error("Clip not found");
+    }
+
+    await ctx.storage.delete(clip.storageId);
+    await ctx.db.delete(clip._id);
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,32 @@
+/**
+ * Scheduled Jobs
+ * See https://docs.convex.dev/scheduling/cron-jobs
+ */
+
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Close sessions left open by crashed or closed browsers
+crons.interval(
+  "reap stale game sessions",
+  { minutes: 5 },
+  internal.gameSessions.reapStaleSessions
+);
+
+// Rotate daily quests at midnight UTC (weekly quests rotate on Mondays)
+crons.daily(
+  "rotate quests",
+  { hourUTC: 0, minuteUTC: 0 },
+  internal.quests.rotateQuests
+);
+
+// Remove uploads that never became a screenshot, clip or game file
+crons.interval(
+  "delete orphaned uploads",
+  { hours: 1 },
+  internal.uploads.deleteOrphanedUploads
+);
+
+export default crons;
@@ -0,0 +1,68 @@
+/**
+ * Favorites Module
+ * Games a player has starred. The library's Favorites filter lives in games.listGames.
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthenticatedUser, requireUser } from "./auth";
+
+// ========== QUERIES ==========
+
+/**
+ * Get the ids of the caller's favorite games (empty for signed-out callers)
+ */
+export const getFavoriteIds = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return [];
+
+    const favorites = await ctx.db
+      .query("favorites")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return favorites.map((favorite) => favorite.gameId);
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Add or remove a game from the caller's favorites (idempotent)
+ */
+export const setFavorite = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    favorite: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const existing = await ctx.db
+      .query("favorites")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+      .first();
+
+    if (args.favorite && !existing) {
+      const game = await ctx.db.get(args.gameId);
+      if (!game) {
+        throw new Error("Game not found");
+      }
+
+      await ctx.db.insert("favorites", {
+        userId: user._id,
+        gameId: args.gameId,
+        addedAt: Date.now(),
+      });
+    } else if (!args.favorite && existing) {
+      await ctx.db.delete(existing._id);
+    }
+
+    return { success: true, favorite: args.favorite };
+  },
+});
@@ -5,6 +5,8 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { evaluateAchievements } from "./achievementRules";
+import { assertActingAs, getAuthenticatedUser, requireUser } from "./auth";
 import { isUserOnline } from "./utils";
 
 // ========== QUERIES ==========
@@ -66,15 +68,18 @@ export const getFriends = query({
 });
 
 /**
- * Get pending friend requests (incoming)
+ * Get the caller's pending friend requests (incoming)
  */
 export const getPendingRequests = query({
-  args: { userId: v.id("users") },
+  args: { sessionToken: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return [];
+
     const requests = await ctx.db
       .query("friendships")
       .withIndex("by_recipient_and_status", (q) =>
-        q.eq("recipientId", args.userId).eq("status", "pending")
+        q.eq("recipientId", user._id).eq("status", "pending")
       )
       .collect();
 
@@ -103,14 +108,17 @@ export const getPendingRequests = query({
 });
 
 /**
- * Get sent friend requests (outgoing pending)
+ * Get the caller's sent friend requests (outgoing pending)
  */
 export const getSentRequests = query({
-  args: { userId: v.id("users") },
+  args: { sessionToken: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return [];
+
     const requests = await ctx.db
       .query("friendships")
-      .withIndex("by_requester", (q) => q.eq("requesterId", args.userId))
+      .withIndex("by_requester", (q) => q.eq("requesterId", user._id))
       .filter((q) => q.eq(q.field("status"), "pending"))
       .collect();
 
@@ -228,10 +236,15 @@ export const getFriendshipStatus = query({
  */
 export const sendFriendRequest = mutation({
   args: {
-    requesterId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    requesterId: v.optional(v.id("users")),
     recipientUsername: v.string(),
   },
   handler: async (ctx, args) => {
+    const requester = await requireUser(ctx, args.sessionToken);
+    assertActingAs(requester, args.requesterId);
+
     // Find recipient by username
     const recipient = await ctx.db
       .query("users")
@@ -243,7 +256,7 @@ export const sendFriendRequest = mutation({
     }
 
     // Can't friend yourself
-    if (args.requesterId === recipient._id) {
+    if (requester._id === recipient._id) {
       throw new Error("Cannot send friend request to yourself");
     }
 
@@ -251,7 +264,7 @@ export const sendFriendRequest = mutation({
     const existing = await ctx.db
       .query("friendships")
       .withIndex("by_requester_and_recipient", (q) =>
-        q.eq("requesterId", args.requesterId).eq("recipientId", recipient._id)
+        q.eq("requesterId", requester._id).eq("recipientId", recipient._id)
       )
       .first();
 
@@ -271,7 +284,7 @@ export const sendFriendRequest = mutation({
     const reverse = await ctx.db
       .query("friendships")
       .withIndex("by_requester_and_recipient", (q) =>
-        q.eq("requesterId", recipient._id).eq("recipientId", args.requesterId)
+        q.eq("requesterId", recipient._id).eq("recipientId", requester._id)
       )
       .first();
 
@@ -296,7 +309,7 @@ export const sendFriendRequest = mutation({
 
     // Create friend request
     const requestId = await ctx.db.insert("friendships", {
-      requesterId: args.requesterId,
+      requesterId: requester._id,
       recipientId: recipient._id,
       status: "pending",
       createdAt: Date.now(),
@@ -314,14 +327,22 @@ export const sendFriendRequest = mutation({
  * Accept a friend request
  */
 export const acceptFriendRequest = mutation({
-  args: { requestId: v.id("friendships") },
+  args: {
+    sessionToken: v.optional(v.string()),
+    requestId: v.id("friendships"),
+  },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
     const request = await ctx.db.get(args.requestId);
 
     if (!request) {
       throw new Error("Friend request not found");
     }
 
+    if (request.recipientId !== user._id) {
+      throw new Error("Only the recipient can accept this request");
+    }
+
     if (request.status !== "pending") {
       throw new Error("Friend request is not pending");
     }
@@ -339,6 +360,10 @@ export const acceptFriendRequest = mutation({
       });
     }
 
+    // Both sides gained a friend
+    await evaluateAchievements(ctx, request.requesterId, ["friends"]);
+    await evaluateAchievements(ctx, request.recipientId, ["friends", "level", "exp"]);
+
     return { success: true };
   },
 });
@@ -347,14 +372,22 @@ export const acceptFriendRequest = mutation({
  * Reject a friend request
  */
 export const rejectFriendRequest = mutation({
-  args: { requestId: v.id("friendships") },
+  args: {
+    sessionToken: v.optional(v.string()),
+    requestId: v.id("friendships"),
+  },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
     const request = await ctx.db.get(args.requestId);
 
     if (!request) {
       throw new Error("Friend request not found");
     }
 
+    if (request.recipientId !== user._id) {
+      throw new Error("Only the recipient can reject this request");
+    }
+
     if (request.status !== "pending") {
       throw new Error("Friend request is not pending");
     }
@@ -372,15 +405,20 @@ export const rejectFriendRequest = mutation({
  */
 export const removeFriend = mutation({
   args: {
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
     friendId: v.id("users"),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
     // Find the friendship
     const friendship1 = await ctx.db
       .query("friendships")
       .withIndex("by_requester_and_recipient", (q) =>
-        q.eq("requesterId", args.userId).eq("recipientId", args.friendId)
+        q.eq("requesterId", user._id).eq("recipientId", args.friendId)
       )
       .first();
 
@@ -392,7 +430,7 @@ export const removeFriend = mutation({
     const friendship2 = await ctx.db
       .query("friendships")
       .withIndex("by_requester_and_recipient", (q) =>
-        q.eq("requesterId", args.friendId).eq("recipientId", args.userId)
+        q.eq("requesterId", args.friendId).eq("recipientId", user._id)
       )
       .first();
 
@@ -409,14 +447,22 @@ export const removeFriend = mutation({
  * Cancel a sent friend request
  */
 export const cancelFriendRequest = mutation({
-  args: { requestId: v.id("friendships") },
+  args: {
+    sessionToken: v.optional(v.string()),
+    requestId: v.id("friendships"),
+  },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
     const request = await ctx.db.get(args.requestId);
 
     if (!request) {
       throw new Error("Friend request not found");
     }
 
+    if (request.requesterId !== user._id) {
+      throw new Error("Only the sender can cancel this request");
+    }
+
     if (request.status !== "pending") {
       throw new Error("Can only cancel pending requests");
     }
@@ -0,0 +1,87 @@
+/**
+ * Game Achievements Module
+ * Records achievements that instrumented SWFs report through the player bridge
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthenticatedUser, requireUser } from "./auth";
+
+// Game-defined keys are short identifiers like "first_boss"
+const MAX_ACHIEVEMENT_KEY_LENGTH = 64;
+
+// ========== QUERIES ==========
+
+/**
+ * Get the caller's unlocked achievements for a game
+ */
+export const getGameAchievements = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return [];
+
+    return await ctx.db
+      .query("game_achievement_unlocks")
+      .withIndex("by_user_and_game", (q) =>
+        q.eq("userId", user._id).eq("gameId", args.gameId)
+      )
+      .collect();
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Unlock a game-defined achievement during the caller's active session
+ * Unlocking an achievement twice is a no-op.
+ */
+export const unlockGameAchievement = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    achievementKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const achievementKey = args.achievementKey.trim();
+    if (!achievementKey || achievementKey.length > MAX_ACHIEVEMENT_KEY_LENGTH) {
+      throw new Error("Invalid achievement key");
+    }
+
+    // Unlocks must come from an active session of this game
+    const session = await ctx.db
+      .query("game_sessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("completed"), false))
+      .first();
+
+    if (!session || session.gameId !== args.gameId) {
+      throw new Error("No active session for this game");
+    }
+
+    const existing = await ctx.db
+      .query("game_achievement_unlocks")
+      .withIndex("by_user_and_game_and_key", (q) =>
+        q.eq("userId", user._id).eq("gameId", args.gameId).eq("achievementKey", achievementKey)
+      )
+      .first();
+
+    if (existing) {
+      return { success: true, newlyUnlocked: false };
+    }
+
+    await ctx.db.insert("game_achievement_unlocks", {
+      userId: user._id,
+      gameId: args.gameId,
+      achievementKey,
+      unlockedAt: Date.now(),
+    });
+
+    return { success: true, newlyUnlocked: true };
+  },
+});
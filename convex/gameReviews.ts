@@ -0,0 +1,184 @@
+/**
+ * Game Reviews Module
+ * Star ratings and reviews (one per player per game), the rating aggregates
+ * kept on `games`, and admin moderation.
+ */
+
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { getAuthenticatedUser, requireUser } from "./auth";
+
+const MAX_REVIEW_LENGTH = 1000;
+
+/**
+ * Recompute a game's ratingAverage/ratingCount from its reviews
+ * Used here and when account merges or deletions move reviews around.
+ */
+export async function refreshGameRating(ctx: MutationCtx, gameId: Id<"games">) {
+  const game = await ctx.db.get(gameId);
+  if (!game) return;
+
+  const reviews = await ctx.db
+    .query("game_reviews")
+    .withIndex("by_game", (q) => q.eq("gameId", gameId))
+    .collect();
+
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+
+  await ctx.db.patch(gameId, {
+    ratingCount: reviews.length,
+    ratingAverage: reviews.length > 0 ? total / reviews.length : undefined,
+  });
+}
+
+// ========== QUERIES ==========
+
+/**
+ * Get a game's reviews (newest first) with the caller's own review
+ * canReview is true once the caller has completed a session of the game.
+ */
+export const getGameReviews = query({
+  args: {
+    gameId: v.id("games"),
+    sessionToken: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit || 20;
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+
+    const reviews = await ctx.db
+      .query("game_reviews")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .order("desc")
+      .take(limit);
+
+    const reviewsWithUsers = await Promise.all(
+      reviews.map(async (review) => {
+        const author = await ctx.db.get(review.userId);
+        return {
+          ...review,
+          username: author?.username ?? "Unknown",
+          avatarUrl: author?.avatarUrl,
+        };
+      })
+    );
+
+    let myReview = null;
+    let canReview = false;
+
+    if (user) {
+      myReview = await ctx.db
+        .query("game_reviews")
+        .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+        .first();
+
+      const completedSession = await ctx.db
+        .query("game_sessions")
+        .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+        .filter((q) => q.eq(q.field("completed"), true))
+        .first();
+
+      canReview = !!completedSession;
+    }
+
+    return { reviews: reviewsWithUsers, myReview, canReview };
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Rate and review a game (replaces the caller's earlier review)
+ * Only players who have completed a session of the game can review it.
+ */
+export const submitReview = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    rating: v.number(),
+    text: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    if (!Number.isInteger(args.rating) || args.rating < 1 || args.rating > 5) {
+      throw new Error("Rating must be between 1 and 5 stars");
+    }
+
+    const text = args.text?.trim() || undefined;
+    if (text && text.length > MAX_REVIEW_LENGTH) {
+      throw new Error(`Review must be at most ${MAX_REVIEW_LENGTH} characters`);
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const completedSession = await ctx.db
+      .query("game_sessions")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+      .filter((q) => q.eq(q.field("completed"), true))
+      .first();
+
+    if (!completedSession) {
+      throw new Error("Complete a session of this game before reviewing it");
+    }
+
+    const existing = await ctx.db
+      .query("game_reviews")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+      .first();
+
+    const now = Date.now();
+    let reviewId: Id<"game_reviews">;
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { rating: args.rating, text, updatedAt: now });
+      reviewId = existing._id;
+    } else {
+      reviewId = await ctx.db.insert("game_reviews", {
+        userId: user._id,
+        gameId: args.gameId,
+        rating: args.rating,
+        text,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await refreshGameRating(ctx, args.gameId);
+
+    return { success: true, reviewId };
+  },
+});
+
+/**
+ * Delete a review (the author's own, or any review for admins)
+ */
+export const deleteReview = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    reviewId: v.id("game_reviews"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const review = await ctx.db.get(args.reviewId);
+    if (!review) {
+      throw new Error("Review not found");
+    }
+
+    const isAdmin = !user.isAnonymous && user.role === "admin";
+    if (review.userId !== user._id && !isAdmin) {
+      throw new Error("Only admins can delete other players' reviews");
+    }
+
+    await ctx.db.delete(review._id);
+    await refreshGameRating(ctx, review.gameId);
+
+    return { success: true };
+  },
+});
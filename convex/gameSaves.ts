@@ -0,0 +1,205 @@
+/**
+ * Game Saves Module
+ * Stores save data that instrumented SWFs report through the player bridge, and
+ * Ruffle SharedObject data synced from the browser into cloud save slots
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthenticatedUser, requireUser } from "./auth";
+
+// Keep saves well under Convex's 1 MB document limit
+const MAX_SAVE_DATA_LENGTH = 256 * 1024;
+const MAX_SAVE_SLOTS = 3;
+
+/**
+ * Validate a cloud save slot number
+ */
+function assertValidSlot(slot: number) {
+  if (!Number.isInteger(slot) || slot < 1 || slot > MAX_SAVE_SLOTS) {
+    throw new Error(`Save slot must be between 1 and ${MAX_SAVE_SLOTS}`);
+  }
+}
+
+// ========== QUERIES ==========
+
+/**
+ * Get the caller's save data for a game
+ */
+export const getSaveData = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return null;
+
+    return await ctx.db
+      .query("game_saves")
+      .withIndex("by_user_and_game_and_slot", (q) =>
+        q.eq("userId", user._id).eq("gameId", args.gameId).eq("slot", undefined)
+      )
+      .first();
+  },
+});
+
+/**
+ * Get the caller's SharedObject cloud saves for a game, by slot
+ */
+export const getCloudSaves = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return [];
+
+    const saves = await ctx.db
+      .query("game_saves")
+      .withIndex("by_user_and_game_and_slot", (q) =>
+        q.eq("userId", user._id).eq("gameId", args.gameId).gt("slot", 0)
+      )
+      .collect();
+
+    return saves.map((save) => ({
+      slot: save.slot!,
+      data: save.data,
+      size: save.data.length,
+      updatedAt: save.updatedAt,
+    }));
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Save data for a game, replacing the caller's previous save
+ */
+export const saveData = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    data: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    if (args.data.length > MAX_SAVE_DATA_LENGTH) {
+      throw new Error("Save data is too large");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const existing = await ctx.db
+      .query("game_saves")
+      .withIndex("by_user_and_game_and_slot", (q) =>
+        q.eq("userId", user._id).eq("gameId", args.gameId).eq("slot", undefined)
+      )
+      .first();
+
+    const updatedAt = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { data: args.data, updatedAt });
+      return { success: true, saveId: existing._id };
+    }
+
+    const saveId = await ctx.db.insert("game_saves", {
+      userId: user._id,
+      gameId: args.gameId,
+      data: args.data,
+      updatedAt,
+    });
+
+    return { success: true, saveId };
+  },
+});
+
+/**
+ * Write SharedObject data to a cloud save slot
+ * Newest wins: with baseUpdatedAt (the slot version this device last synced), a slot
+ * another device has written since is left alone and conflict is returned. Omit
+ * baseUpdatedAt to overwrite the slot.
+ */
+export const saveCloudSave = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    slot: v.number(),
+    data: v.string(),
+    baseUpdatedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertValidSlot(args.slot);
+
+    if (args.data.length > MAX_SAVE_DATA_LENGTH) {
+      throw new Error("Save data is too large");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const existing = await ctx.db
+      .query("game_saves")
+      .withIndex("by_user_and_game_and_slot", (q) =>
+        q.eq("userId", user._id).eq("gameId", args.gameId).eq("slot", args.slot)
+      )
+      .first();
+
+    if (existing && args.baseUpdatedAt !== undefined && existing.updatedAt > args.baseUpdatedAt) {
+      return { success: false, conflict: true, updatedAt: existing.updatedAt };
+    }
+
+    const updatedAt = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { data: args.data, updatedAt });
+    } else {
+      await ctx.db.insert("game_saves", {
+        userId: user._id,
+        gameId: args.gameId,
+        slot: args.slot,
+        data: args.data,
+        updatedAt,
+      });
+    }
+
+    return { success: true, conflict: false, updatedAt };
+  },
+});
+
+/**
+ * Delete a cloud save slot
+ */
+export const deleteCloudSave = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    slot: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertValidSlot(args.slot);
+
+    const existing = await ctx.db
+      .query("game_saves")
+      .withIndex("by_user_and_game_and_slot", (q) =>
+        q.eq("userId", user._id).eq("gameId", args.gameId).eq("slot", args.slot)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,150 @@
+/**
+ * Game Scores Module
+ * Handles score submission, plausibility checks, and per-game score leaderboards
+ */
+
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { mutation, query } from "./_generated/server";
+import { requireUser } from "./auth";
+import { getPeriodStart } from "./utils";
+
+// Used when a game has no scoreConfig
+const DEFAULT_SCORE_ORDER = "higher";
+
+const periodValidator = v.union(
+  v.literal("daily"),
+  v.literal("weekly"),
+  v.literal("allTime")
+);
+
+// ========== QUERIES ==========
+
+/**
+ * Get the score leaderboard for a game
+ * Ranks each player's best unflagged score within the period.
+ */
+export const getScoreLeaderboard = query({
+  args: {
+    gameId: v.id("games"),
+    period: periodValidator,
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit || 10;
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) return [];
+
+    const order = game.scoreConfig?.order ?? DEFAULT_SCORE_ORDER;
+    const since = getPeriodStart(args.period);
+
+    const scores = await ctx.db
+      .query("game_scores")
+      .withIndex("by_game_and_submittedAt", (q) =>
+        q.eq("gameId", args.gameId).gte("submittedAt", since)
+      )
+      .filter((q) => q.eq(q.field("flagged"), false))
+      .collect();
+
+    const isBetter = (a: number, b: number) => (order === "higher" ? a > b : a < b);
+
+    // Keep each player's best score
+    const bestByUser = new Map<Id<"users">, { score: number; submittedAt: number }>();
+    scores.forEach((s) => {
+      const best = bestByUser.get(s.userId);
+      if (!best || isBetter(s.score, best.score)) {
+        bestByUser.set(s.userId, { score: s.score, submittedAt: s.submittedAt });
+      }
+    });
+
+    // Sort by score, earlier submission wins ties
+    const sorted = [...bestByUser.entries()]
+      .sort(([, a], [, b]) => {
+        if (a.score !== b.score) return isBetter(a.score, b.score) ? -1 : 1;
+        return a.submittedAt - b.submittedAt;
+      })
+      .slice(0, limit);
+
+    // Get user info
+    const leaderboard = await Promise.all(
+      sorted.map(async ([userId, best], index) => {
+        const user = await ctx.db.get(userId);
+        return {
+          rank: index + 1,
+          user,
+          score: best.score,
+          submittedAt: best.submittedAt,
+        };
+      })
+    );
+
+    return leaderboard;
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Submit a score for the caller's active session of a game
+ * Scores implausible for the session's duration are stored but flagged, not ranked.
+ */
+export const submitScore = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    score: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    if (!Number.isFinite(args.score) || args.score < 0) {
+      throw new Error("Invalid score");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    // Scores must come from an active session of this game
+    const session = await ctx.db
+      .query("game_sessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("completed"), false))
+      .first();
+
+    if (!session || session.gameId !== args.gameId) {
+      throw new Error("No active session for this game");
+    }
+
+    const now = Date.now();
+    let flagReason: string | undefined;
+
+    // Plausibility check: cap score by how long the session has been running
+    const maxPerMinute = game.scoreConfig?.maxScorePerMinute;
+    if ((game.scoreConfig?.order ?? DEFAULT_SCORE_ORDER) === "higher" && maxPerMinute !== undefined) {
+      const elapsedMinutes = (now - session.startTime) / 60000;
+      const maxPlausible = maxPerMinute * Math.max(elapsedMinutes, 1);
+      if (args.score > maxPlausible) {
+        flagReason = `Score exceeds ${Math.floor(maxPlausible)} for a ${elapsedMinutes.toFixed(1)} minute session`;
+      }
+    }
+
+    const scoreId = await ctx.db.insert("game_scores", {
+      userId: user._id,
+      gameId: args.gameId,
+      sessionId: session._id,
+      score: args.score,
+      submittedAt: now,
+      flagged: flagReason !== undefined,
+      flagReason,
+    });
+
+    return {
+      success: true,
+      scoreId,
+      flagged: flagReason !== undefined,
+    };
+  },
+});
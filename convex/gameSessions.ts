@@ -4,8 +4,115 @@
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { calculateExpFromPlaytime } from "./utils";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, mutation, MutationCtx, query } from "./_generated/server";
+import { evaluateAchievements } from "./achievementRules";
+import { recordSessionForQuests } from "./questProgress";
+import { assertActingAs, getAuthenticatedUser, requireUser } from "./auth";
+import { withStorageUrls } from "./games";
+import { calculateExpFromPlaytime, getActiveWindowMs, MIN_QUALIFYING_ACTIVE_MS } from "./utils";
+
+// Open sessions without a heartbeat for this long are closed by the reaper
+export const STALE_SESSION_THRESHOLD_MS = 5 * 60 * 1000;
+
+// How many of a player's latest sessions are scanned for recently played games
+const RECENT_SESSION_SCAN = 200;
+
+/**
+ * Add the window since the last heartbeat to a session's active time
+ * XP and playtime are based on active time, not wall-clock time since startTime.
+ */
+function creditActiveTime(
+  session: Doc<"game_sessions">,
+  now: number,
+  inputEvents: number | undefined
+): number {
+  const windowStart = session.lastHeartbeat ?? session.startTime;
+  return (session.activeMs ?? 0) + getActiveWindowMs(now - windowStart, inputEvents ?? 0);
+}
+
+/**
+ * Close an open session and credit its player
+ * Shared by endSession, a replacing startSession and the stale-session reaper so every
+ * closed session counts toward XP, play count, guild XP, quests and achievements.
+ */
+async function closeSession(
+  ctx: MutationCtx,
+  session: Doc<"game_sessions">,
+  user: Doc<"users">,
+  close: {
+    endTime: number;
+    activeMs: number;
+    completed: boolean; // The client reports the game completed (checked here)
+    closedReason: "user" | "replaced" | "timeout";
+  }
+) {
+  const duration = Math.floor(close.activeMs / 60000);
+
+  // The completion flag comes from the client (or a game's bridge call), so the bonus
+  // needs real play and is paid once per game
+  let gameCompleted = false;
+  if (close.completed && close.activeMs >= MIN_QUALIFYING_ACTIVE_MS) {
+    const earlierCompletion = await ctx.db
+      .query("game_sessions")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", session.gameId))
+      .filter((q) => q.eq(q.field("gameCompleted"), true))
+      .first();
+    gameCompleted = earlierCompletion === null;
+  }
+
+  // Calculate XP (10 XP per minute + bonus for completion)
+  let expAwarded = calculateExpFromPlaytime(duration);
+  if (gameCompleted) {
+    expAwarded += 50; // Completion bonus
+  }
+
+  await ctx.db.patch(session._id, {
+    endTime: close.endTime,
+    activeMs: close.activeMs,
+    duration,
+    expAwarded,
+    completed: true,
+    gameCompleted: gameCompleted || undefined,
+    closedReason: close.closedReason,
+  });
+
+  // Award XP to user
+  const totalExp = (user.exp ?? 0) + expAwarded;
+  const totalPlaytime = (user.totalPlaytime ?? 0) + duration;
+
+  await ctx.db.patch(user._id, {
+    exp: totalExp,
+    totalPlaytime,
+  });
+
+  // Update game play count
+  const game = await ctx.db.get(session.gameId);
+  if (game) {
+    await ctx.db.patch(session.gameId, {
+      playCount: game.playCount + 1,
+    });
+  }
+
+  // Update guild XP if user is in a guild
+  if (user.guildId && expAwarded > 0) {
+    const guild = await ctx.db.get(user.guildId);
+    if (guild) {
+      await ctx.db.patch(user.guildId, {
+        totalExp: guild.totalExp + expAwarded,
+      });
+    }
+  }
+
+  await recordSessionForQuests(ctx, user, session, {
+    activeMs: close.activeMs,
+    duration,
+    completed: gameCompleted,
+  });
+  await evaluateAchievements(ctx, user._id, ["level", "exp", "playtime", "distinctGames"]);
+
+  return { duration, expAwarded, gameCompleted, totalExp, totalPlaytime };
+}
 
 // ========== QUERIES ==========
 
@@ -112,6 +219,60 @@ export const getUserGameStats = query({
   },
 });
 
+/**
+ * Get the caller's recently played games, most recent first
+ * One entry per game with when it was last played and the total minutes across
+ * its completed sessions. Unpublished or removed games are skipped.
+ */
+export const getRecentlyPlayed = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit || 8;
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return [];
+
+    const sessions = await ctx.db
+      .query("game_sessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(RECENT_SESSION_SCAN);
+
+    // Sessions come newest first, so the first one seen per game is the latest
+    const lastPlayed = new Map<Id<"games">, number>();
+    for (const session of sessions) {
+      if (!lastPlayed.has(session.gameId)) {
+        lastPlayed.set(session.gameId, session.endTime ?? session.lastHeartbeat ?? session.startTime);
+      }
+    }
+
+    const recent = [];
+    for (const [gameId, lastPlayedAt] of lastPlayed) {
+      if (recent.length >= limit) break;
+
+      const game = await ctx.db.get(gameId);
+      if (!game || game.isPublished === false) continue;
+
+      const gameSessions = await ctx.db
+        .query("game_sessions")
+        .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", gameId))
+        .filter((q) => q.eq(q.field("completed"), true))
+        .collect();
+
+      recent.push({
+        game: await withStorageUrls(ctx, game),
+        lastPlayedAt,
+        totalMinutes: gameSessions.reduce((sum, s) => sum + s.duration, 0),
+        sessionCount: gameSessions.length,
+      });
+    }
+
+    return recent;
+  },
+});
+
 /**
  * Get leaderboard for a specific game
  */
@@ -165,42 +326,35 @@ export const getGameLeaderboard = query({
  */
 export const startSession = mutation({
   args: {
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
     gameId: v.id("games"),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
     // Check if user has an active session
     const activeSession = await ctx.db
       .query("game_sessions")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
       .filter((q) => q.eq(q.field("completed"), false))
       .first();
 
     if (activeSession) {
-      // End the previous session first
-      const duration = Math.floor((Date.now() - activeSession.startTime) / 60000);
-      const expAwarded = calculateExpFromPlaytime(duration);
-
-      await ctx.db.patch(activeSession._id, {
+      // End the previous session first, crediting only reported activity
+      await closeSession(ctx, activeSession, user, {
         endTime: Date.now(),
-        duration,
-        expAwarded,
-        completed: true,
+        activeMs: activeSession.activeMs ?? 0,
+        completed: false,
+        closedReason: "replaced",
       });
-
-      // Award XP to user
-      const user = await ctx.db.get(args.userId);
-      if (user) {
-        await ctx.db.patch(args.userId, {
-          exp: (user.exp ?? 0) + expAwarded,
-          totalPlaytime: (user.totalPlaytime ?? 0) + duration,
-        });
-      }
     }
 
     // Create new session
     const sessionId = await ctx.db.insert("game_sessions", {
-      userId: args.userId,
+      userId: user._id,
       gameId: args.gameId,
       startTime: Date.now(),
       duration: 0,
@@ -217,13 +371,19 @@ export const startSession = mutation({
  */
 export const endSession = mutation({
   args: {
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
     completed: v.optional(v.boolean()), // Did user complete the game?
+    inputEvents: v.optional(v.number()), // Input events since the last heartbeat
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
     const session = await ctx.db
       .query("game_sessions")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
       .filter((q) => q.eq(q.field("completed"), false))
       .first();
 
@@ -231,75 +391,85 @@ export const endSession = mutation({
       throw new Error("No active session found");
     }
 
-    // Calculate duration in minutes
-    const duration = Math.floor((Date.now() - session.startTime) / 60000);
+    const now = Date.now();
+    const result = await closeSession(ctx, session, user, {
+      endTime: now,
+      activeMs: creditActiveTime(session, now, args.inputEvents),
+      completed: args.completed ?? false,
+      closedReason: "user",
+    });
 
-    // Calculate XP (10 XP per minute + bonus for completion)
-    let expAwarded = calculateExpFromPlaytime(duration);
-    if (args.completed) {
-      expAwarded += 50; // Completion bonus
-    }
+    await ctx.db.patch(session._id, { lastHeartbeat: now });
+    await ctx.db.patch(user._id, { lastSeen: now });
 
-    // Update session
-    await ctx.db.patch(session._id, {
-      endTime: Date.now(),
-      duration,
-      expAwarded,
-      completed: true,
-    });
+    return { success: true, ...result };
+  },
+});
+
+/**
+ * Heartbeat to keep session alive (called periodically during gameplay)
+ */
+export const updateSessionHeartbeat = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
+    inputEvents: v.optional(v.number()), // Input events since the last heartbeat
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
+    const session = await ctx.db
+      .query("game_sessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("completed"), false))
+      .first();
 
-    // Award XP to user
-    const user = await ctx.db.get(args.userId);
-    if (!user) {
-      throw new Error("User not found");
+    if (!session) {
+      return { success: false, message: "No active session" };
     }
 
-    const newExp = (user.exp ?? 0) + expAwarded;
-    const newPlaytime = (user.totalPlaytime ?? 0) + duration;
+    // Credit the window since the last heartbeat if the player was active
+    const now = Date.now();
+    const activeMs = creditActiveTime(session, now, args.inputEvents);
 
-    await ctx.db.patch(args.userId, {
-      exp: newExp,
-      totalPlaytime: newPlaytime,
-      lastSeen: Date.now(),
+    await ctx.db.patch(session._id, {
+      lastHeartbeat: now,
+      activeMs,
     });
 
-    // Update game play count
-    const game = await ctx.db.get(session.gameId);
-    if (game) {
-      await ctx.db.patch(session.gameId, {
-        playCount: game.playCount + 1,
-      });
-    }
+    // Update user's last seen
+    await ctx.db.patch(user._id, {
+      lastSeen: now,
+    });
 
-    // Update guild XP if user is in a guild
-    if (user.guildId) {
-      const guild = await ctx.db.get(user.guildId);
-      if (guild) {
-        await ctx.db.patch(user.guildId, {
-          totalExp: guild.totalExp + expAwarded,
-        });
-      }
-    }
+    // Calculate current active playtime
+    const currentDuration = Math.floor(activeMs / 60000);
 
     return {
       success: true,
-      duration,
-      expAwarded,
-      totalExp: newExp,
-      totalPlaytime: newPlaytime,
+      currentDuration,
+      estimatedExp: calculateExpFromPlaytime(currentDuration),
     };
   },
 });
 
 /**
- * Heartbeat to keep session alive (called periodically during gameplay)
+ * Record which Ruffle build the caller's open session is running on
  */
-export const updateSessionHeartbeat = mutation({
-  args: { userId: v.id("users") },
+export const recordRuffleVersion = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    ruffleVersion: v.string(),
+    ruffleSource: v.union(v.literal("self-hosted"), v.literal("mirror")),
+  },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
     const session = await ctx.db
       .query("game_sessions")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
       .filter((q) => q.eq(q.field("completed"), false))
       .first();
 
@@ -307,19 +477,12 @@ export const updateSessionHeartbeat = mutation({
       return { success: false, message: "No active session" };
     }
 
-    // Update user's last seen
-    await ctx.db.patch(args.userId, {
-      lastSeen: Date.now(),
+    await ctx.db.patch(session._id, {
+      ruffleVersion: args.ruffleVersion.slice(0, 64),
+      ruffleSource: args.ruffleSource,
     });
 
-    // Calculate current playtime
-    const currentDuration = Math.floor((Date.now() - session.startTime) / 60000);
-
-    return {
-      success: true,
-      currentDuration,
-      estimatedExp: calculateExpFromPlaytime(currentDuration),
-    };
+    return { success: true };
   },
 });
 
@@ -327,11 +490,18 @@ export const updateSessionHeartbeat = mutation({
  * Delete user's game history
  */
 export const clearUserSessions = mutation({
-  args: { userId: v.id("users") },
+  args: {
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
+  },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
     const sessions = await ctx.db
       .query("game_sessions")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
       .collect();
 
     for (const session of sessions) {
@@ -341,3 +511,48 @@ export const clearUserSessions = mutation({
     return { success: true, deletedCount: sessions.length };
   },
 });
+
+// ========== SCHEDULED JOBS ==========
+
+/**
+ * Close open sessions whose heartbeat has gone quiet (crashed or closed browser)
+ * Duration and XP only cover active time up to the last heartbeat. Run by crons.ts.
+ */
+export const reapStaleSessions = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - STALE_SESSION_THRESHOLD_MS;
+
+    const openSessions = await ctx.db
+      .query("game_sessions")
+      .withIndex("by_completed", (q) => q.eq("completed", false))
+      .collect();
+
+    const staleSessions = openSessions.filter(
+      (session) => (session.lastHeartbeat ?? session.startTime) < cutoff
+    );
+
+    for (const session of staleSessions) {
+      const endTime = session.lastHeartbeat ?? session.startTime;
+      const user = await ctx.db.get(session.userId);
+
+      if (!user) {
+        await ctx.db.patch(session._id, {
+          endTime,
+          completed: true,
+          closedReason: "timeout",
+        });
+        continue;
+      }
+
+      await closeSession(ctx, session, user, {
+        endTime,
+        activeMs: session.activeMs ?? 0,
+        completed: false,
+        closedReason: "timeout",
+      });
+    }
+
+    return { closedCount: staleSessions.length };
+  },
+});
@@ -1,52 +1,734 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { OrderedQuery, PaginationResult, paginationOptsValidator } from "convex/server";
+import { DataModel, Doc, Id } from "./_generated/dataModel";
+import { getAuthenticatedUser, requireAdmin } from "./auth";
 
-// Get all games with search and filter
+const difficultyValidator = v.union(v.literal("Easy"), v.literal("Medium"), v.literal("Hard"));
+
+// Score ranking and plausibility settings (see gameScores.submitScore)
+const scoreConfigValidator = v.object({
+  order: v.union(v.literal("higher"), v.literal("lower")),
+  maxScorePerMinute: v.optional(v.number()),
+});
+
+// Fields read from a SWF by swfUpload.ts
+const swfMetadataArgs = {
+  swfVersion: v.number(),
+  frameRate: v.optional(v.number()),
+  stageWidth: v.optional(v.number()),
+  stageHeight: v.optional(v.number()),
+  usesAS3: v.optional(v.boolean()),
+  backgroundColor: v.optional(v.string()),
+  description: v.optional(v.string()),
+};
+
+/**
+ * Validate admin-supplied catalog fields
+ */
+function validateGameFields(fields: {
+  title?: string;
+  category?: string;
+  scoreConfig?: { maxScorePerMinute?: number };
+}) {
+  if (fields.title !== undefined && !fields.title.trim()) {
+    throw new Error("Title is required");
+  }
+  if (fields.category !== undefined && !fields.category.trim()) {
+    throw new Error("Category is required");
+  }
+  const maxPerMinute = fields.scoreConfig?.maxScorePerMinute;
+  if (maxPerMinute !== undefined && !(maxPerMinute > 0)) {
+    throw new Error("Max score per minute must be a positive number");
+  }
+}
+
+/**
+ * Serve uploaded files instead of the external swfUrl/thumbnail when a game has them
+ * Storage ids stay server-side; players only get the URLs.
+ */
+export async function withStorageUrls(
+  ctx: QueryCtx,
+  { swfStorageId, thumbnailStorageId, ...game }: Doc<"games">
+): Promise<Omit<Doc<"games">, "swfStorageId" | "thumbnailStorageId">> {
+  const swfUrl = swfStorageId ? await ctx.storage.getUrl(swfStorageId) : null;
+  const thumbnail = thumbnailStorageId ? await ctx.storage.getUrl(thumbnailStorageId) : null;
+
+  return { ...game, swfUrl: swfUrl ?? game.swfUrl, thumbnail: thumbnail ?? game.thumbnail };
+}
+
+/**
+ * Whether a stored file is already an uploaded SWF or thumbnail of a game other than gameId
+ */
+async function isLinkedToOtherGame(
+  ctx: QueryCtx,
+  storageId: Id<"_storage">,
+  gameId: Id<"games"> | undefined
+): Promise<boolean> {
+  const swfGame = await ctx.db
+    .query("games")
+    .withIndex("by_swf_storage", (q) => q.eq("swfStorageId", storageId))
+    .filter((q) => q.neq(q.field("_id"), gameId))
+    .first();
+
+  const thumbnailGame = await ctx.db
+    .query("games")
+    .withIndex("by_thumbnail_storage", (q) => q.eq("thumbnailStorageId", storageId))
+    .filter((q) => q.neq(q.field("_id"), gameId))
+    .first();
+
+  return swfGame !== null || thumbnailGame !== null;
+}
+
+/**
+ * Resolve uploaded files into game fields
+ * SWFs must have passed swfUpload.validateSwfUpload; thumbnails must be images.
+ * Files another game uses are rejected, since replacing a file deletes the old one.
+ * The SWF's own description is only used when the game has none.
+ */
+async function getUploadFields(
+  ctx: MutationCtx,
+  gameId: Id<"games"> | undefined,
+  uploads: { swfStorageId?: Id<"_storage">; thumbnailStorageId?: Id<"_storage"> },
+  currentDescription: string | undefined
+) {
+  const fields: Partial<Doc<"games">> = {};
+
+  for (const storageId of [uploads.swfStorageId, uploads.thumbnailStorageId]) {
+    if (storageId && (await isLinkedToOtherGame(ctx, storageId, gameId))) {
+      throw new Error("This upload is already used by another game");
+    }
+  }
+
+  if (uploads.swfStorageId) {
+    const swfStorageId = uploads.swfStorageId; // Narrow the type
+    const upload = await ctx.db
+      .query("swf_uploads")
+      .withIndex("by_storage", (q) => q.eq("storageId", swfStorageId))
+      .first();
+
+    if (!upload) {
+      throw new Error("SWF upload has not been validated");
+    }
+
+    fields.swfStorageId = swfStorageId;
+    fields.swfVersion = upload.swfVersion;
+    fields.frameRate = upload.frameRate;
+    fields.stageWidth = upload.stageWidth;
+    fields.stageHeight = upload.stageHeight;
+    fields.usesAS3 = upload.usesAS3;
+    fields.backgroundColor = upload.backgroundColor;
+    if (!currentDescription?.trim() && upload.description) {
+      fields.description = upload.description;
+    }
+  }
+
+  if (uploads.thumbnailStorageId) {
+    const file = await ctx.db.system.get(uploads.thumbnailStorageId);
+    if (!file) {
+      throw new Error("Thumbnail upload not found");
+    }
+    if (!file.contentType?.startsWith("image/")) {
+      throw new Error("Thumbnail must be an image");
+    }
+    fields.thumbnailStorageId = uploads.thumbnailStorageId;
+  }
+
+  return fields;
+}
+
+/**
+ * Whether a game is shown in the catalog (isPublished unset counts as published)
+ */
+function isListed(game: Doc<"games">): boolean {
+  return game.isPublished !== false;
+}
+
+/**
+ * Add delta to the catalog_counts cell of a game's category, difficulty and multiplayer flag
+ */
+async function adjustCatalogCount(ctx: MutationCtx, game: Doc<"games">, delta: number) {
+  const cell = await ctx.db
+    .query("catalog_counts")
+    .withIndex("by_facets", (q) =>
+      q.eq("category", game.category).eq("difficulty", game.difficulty).eq("isMultiplayer", game.isMultiplayer)
+    )
+    .first();
+
+  if (cell) {
+    await ctx.db.patch(cell._id, { count: Math.max(0, cell.count + delta) });
+  } else if (delta > 0) {
+    await ctx.db.insert("catalog_counts", {
+      category: game.category,
+      difficulty: game.difficulty,
+      isMultiplayer: game.isMultiplayer,
+      count: delta,
+    });
+  }
+}
+
+/**
+ * Keep a game's game_tags rows and its catalog_counts cell in step with the game
+ * Call after any write that changes tags, category, difficulty, isMultiplayer or
+ * isPublished, with the game before (null when created) and after the write.
+ */
+async function syncCatalogIndex(ctx: MutationCtx, before: Doc<"games"> | null, after: Doc<"games">) {
+  const tags = new Set(after.tags);
+  const rows = await ctx.db
+    .query("game_tags")
+    .withIndex("by_game", (q) => q.eq("gameId", after._id))
+    .collect();
+
+  for (const row of rows) {
+    if (!tags.has(row.tag)) await ctx.db.delete(row._id);
+  }
+  for (const tag of tags) {
+    if (!rows.some((row) => row.tag === tag)) {
+      await ctx.db.insert("game_tags", { tag, gameId: after._id });
+    }
+  }
+
+  if (before && isListed(before)) await adjustCatalogCount(ctx, before, -1);
+  if (isListed(after)) await adjustCatalogCount(ctx, after, 1);
+}
+
+type CatalogSort = "newest" | "popular" | "rating" | "title";
+
+// Convex returns at most this many search results
+const MAX_SEARCH_RESULTS = 1024;
+
+interface CatalogFilters {
+  search?: string;
+  category?: string;
+  tags?: string[];
+  difficulty?: Doc<"games">["difficulty"];
+  multiplayerOnly?: boolean;
+  sort?: CatalogSort;
+}
+
+/**
+ * Build the catalog query for a filter combination and sort
+ * Sorting uses an index and the other facets are database filters, so pagination
+ * cursors stay stable. Search results are ordered by relevance. Unpublished and
+ * archived games are hidden (isPublished unset counts as published).
+ * Tags and favorites can't be matched by a database filter; see getCatalogMembers.
+ */
+function catalogQuery(ctx: QueryCtx, filters: CatalogFilters): OrderedQuery<DataModel["games"]> {
+  const { search, category, difficulty, multiplayerOnly, sort = "newest" } = filters;
+  let query: OrderedQuery<DataModel["games"]>;
+
+  if (search) {
+    query = ctx.db.query("games").withSearchIndex("search_games", (q) => {
+      let searchFilter = q.search("title", search);
+      if (category) searchFilter = searchFilter.eq("category", category);
+      if (multiplayerOnly) searchFilter = searchFilter.eq("isMultiplayer", true);
+      if (difficulty) searchFilter = searchFilter.eq("difficulty", difficulty);
+      return searchFilter;
+    });
+  } else if (sort === "popular") {
+    query = ctx.db.query("games").withIndex("by_play_count").order("desc");
+  } else if (sort === "rating") {
+    query = ctx.db.query("games").withIndex("by_rating").order("desc");
+  } else if (sort === "title") {
+    query = ctx.db.query("games").withIndex("by_title").order("asc");
+  } else if (category && multiplayerOnly) {
+    query = ctx.db
+      .query("games")
+      .withIndex("by_category_and_multiplayer", (q) =>
+        q.eq("category", category).eq("isMultiplayer", true)
+      )
+      .order("desc");
+  } else if (category) {
+    query = ctx.db
+      .query("games")
+      .withIndex("by_category", (q) => q.eq("category", category))
+      .order("desc");
+  } else if (multiplayerOnly) {
+    query = ctx.db
+      .query("games")
+      .withIndex("by_multiplayer", (q) => q.eq("isMultiplayer", true))
+      .order("desc");
+  } else {
+    query = ctx.db.query("games").order("desc");
+  }
+
+  // Facets already applied by an index are repeated here; that's harmless
+  return query.filter((q) =>
+    q.and(
+      q.neq(q.field("isPublished"), false),
+      category ? q.eq(q.field("category"), category) : true,
+      multiplayerOnly ? q.eq(q.field("isMultiplayer"), true) : true,
+      difficulty ? q.eq(q.field("difficulty"), difficulty) : true
+    )
+  );
+}
+
+/**
+ * Whether a game passes the category, difficulty and multiplayer facets and is listed
+ */
+function matchesFacets(game: Doc<"games">, filters: CatalogFilters): boolean {
+  return (
+    isListed(game) &&
+    (!filters.category || game.category === filters.category) &&
+    (!filters.difficulty || game.difficulty === filters.difficulty) &&
+    (!filters.multiplayerOnly || game.isMultiplayer)
+  );
+}
+
+// Same order as the catalogQuery indexes (ties go by creation time, as in an index)
+const catalogComparators: Record<CatalogSort, (a: Doc<"games">, b: Doc<"games">) => number> = {
+  newest: (a, b) => b._creationTime - a._creationTime,
+  popular: (a, b) => b.playCount - a.playCount || b._creationTime - a._creationTime,
+  rating: (a, b) => (b.ratingAverage ?? -1) - (a.ratingAverage ?? -1) || b._creationTime - a._creationTime,
+  title: (a, b) => (a.title < b.title ? -1 : a.title > b.title ? 1 : a._creationTime - b._creationTime),
+};
+
+/**
+ * Get the ids of the games with every selected tag (and in the caller's favorites
+ * with favoritesOnly), or null when neither facet is selected
+ * Both come from indexes, so only these games need reading. With favoritesOnly,
+ * signed-out callers match nothing.
+ */
+async function getCatalogMembers(
+  ctx: QueryCtx,
+  args: CatalogFilters & { favoritesOnly?: boolean; sessionToken?: string }
+): Promise<Set<Id<"games">> | null> {
+  const memberSets: Set<Id<"games">>[] = [];
+
+  if (args.favoritesOnly) {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    const favorites = user
+      ? await ctx.db
+          .query("favorites")
+          .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+          .collect()
+      : [];
+    memberSets.push(new Set(favorites.map((favorite) => favorite.gameId)));
+  }
+
+  for (const tag of args.tags ?? []) {
+    const rows = await ctx.db
+      .query("game_tags")
+      .withIndex("by_tag", (q) => q.eq("tag", tag))
+      .collect();
+    memberSets.push(new Set(rows.map((row) => row.gameId)));
+  }
+
+  if (memberSets.length === 0) return null;
+
+  const [first, ...rest] = memberSets;
+  return new Set([...first].filter((gameId) => rest.every((members) => members.has(gameId))));
+}
+
+/**
+ * Get every catalog game among the members that matches the filters, in display order
+ * Only the member games are read, and pages are cut from the filtered list so they
+ * come back full. Search results keep their relevance order.
+ */
+async function collectCatalogMembers(
+  ctx: QueryCtx,
+  filters: CatalogFilters,
+  members: Set<Id<"games">>
+): Promise<Doc<"games">[]> {
+  if (filters.search) {
+    const results = await catalogQuery(ctx, filters).take(MAX_SEARCH_RESULTS);
+    return results.filter((game) => members.has(game._id));
+  }
+
+  const games: Doc<"games">[] = [];
+  for (const gameId of members) {
+    const game = await ctx.db.get(gameId);
+    if (game && matchesFacets(game, filters)) games.push(game);
+  }
+
+  return games.sort(catalogComparators[filters.sort ?? "newest"]);
+}
+
+/**
+ * Cut a page from an already-filtered list; the cursor is the offset of the next page
+ * Every loaded page re-runs when the list changes, so pages stay contiguous.
+ */
+function paginateList<T>(
+  items: T[],
+  opts: { numItems: number; cursor: string | null; endCursor?: string | null }
+): PaginationResult<T> {
+  const start = Number(opts.cursor) || 0;
+  const end = opts.endCursor ? Number(opts.endCursor) : start + opts.numItems;
+
+  return {
+    page: items.slice(start, end),
+    isDone: end >= items.length,
+    continueCursor: String(end),
+  };
+}
+
+const catalogFilterArgs = {
+  search: v.optional(v.string()),
+  category: v.optional(v.string()),
+  tags: v.optional(v.array(v.string())),
+  difficulty: v.optional(difficultyValidator),
+  multiplayerOnly: v.optional(v.boolean()),
+  favoritesOnly: v.optional(v.boolean()),
+  sort: v.optional(
+    v.union(v.literal("newest"), v.literal("popular"), v.literal("rating"), v.literal("title"))
+  ),
+  sessionToken: v.optional(v.string()),
+};
+
+// Get a page of games with search, facets and sort
 export const listGames = query({
   args: {
-    search: v.optional(v.string()),
-    category: v.optional(v.string()),
-    multiplayerOnly: v.optional(v.boolean()),
+    ...catalogFilterArgs,
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
+    const members = await getCatalogMembers(ctx, args);
+    const result = members
+      ? paginateList(await collectCatalogMembers(ctx, args, members), args.paginationOpts)
+      : await catalogQuery(ctx, args).paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: await Promise.all(result.page.map((game) => withStorageUrls(ctx, game))),
+    };
+  },
+});
+
+// Count the games matching a search and facets
+// Facet-only counts come from catalog_counts instead of reading the catalog.
+export const countGames = query({
+  args: catalogFilterArgs,
+  handler: async (ctx, args) => {
+    const members = await getCatalogMembers(ctx, args);
+    if (members) {
+      return (await collectCatalogMembers(ctx, args, members)).length;
+    }
+
     if (args.search) {
-      const searchTerm = args.search; // Narrow the type
-      let searchQuery = ctx.db
-        .query("games")
-        .withSearchIndex("search_games", (q) => q.search("title", searchTerm));
-
-      if (args.category) {
-        const category = args.category; // Narrow the type
-        searchQuery = searchQuery.filter((q) => q.eq(q.field("category"), category));
-      }
+      return (await catalogQuery(ctx, args).take(MAX_SEARCH_RESULTS)).length;
+    }
 
-      if (args.multiplayerOnly) {
-        searchQuery = searchQuery.filter((q) => q.eq(q.field("isMultiplayer"), true));
+    const cells = await ctx.db.query("catalog_counts").collect();
+    return cells
+      .filter(
+        (cell) =>
+          (!args.category || cell.category === args.category) &&
+          (!args.difficulty || cell.difficulty === args.difficulty) &&
+          (!args.multiplayerOnly || cell.isMultiplayer)
+      )
+      .reduce((total, cell) => total + cell.count, 0);
+  },
+});
+
+// Get the categories, tags and difficulties in the published catalog, with game counts
+export const getCatalogFacets = query({
+  args: {},
+  handler: async (ctx) => {
+    const games = await ctx.db
+      .query("games")
+      .filter((q) => q.neq(q.field("isPublished"), false))
+      .collect();
+
+    const count = (values: string[]) => {
+      const counts = new Map<string, number>();
+      for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
       }
+      return [...counts.entries()]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    };
+
+    return {
+      total: games.length,
+      categories: count(games.map((game) => game.category)),
+      tags: count(games.flatMap((game) => game.tags)),
+      difficulties: count(games.map((game) => game.difficulty)),
+      multiplayer: games.filter((game) => game.isMultiplayer).length,
+    };
+  },
+});
+
+// Get single game (unpublished games are only visible to admins)
+// Takes any string so malformed /game/:gameId links resolve to null instead of throwing
+export const getGame = query({
+  args: {
+    gameId: v.string(),
+    sessionToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const gameId = ctx.db.normalizeId("games", args.gameId);
+    const game = gameId ? await ctx.db.get(gameId) : null;
+    if (!game) return null;
 
-      return await searchQuery.take(50);
+    if (game.isPublished === false) {
+      const user = await getAuthenticatedUser(ctx, args.sessionToken);
+      if (!user || user.isAnonymous || user.role !== "admin") return null;
     }
 
-    let query = ctx.db.query("games");
+    return await withStorageUrls(ctx, game);
+  },
+});
+
+// ========== ADMIN ==========
+
+// Get an upload URL for a SWF or thumbnail file
+export const generateUploadUrl = mutation({
+  args: { sessionToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionToken);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
 
-    if (args.category) {
-      const category = args.category; // Narrow the type
-      query = query.filter((q) => q.eq(q.field("category"), category));
+// Get every game, including unpublished and archived ones
+export const listAllGames = query({
+  args: { sessionToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionToken);
+    return await ctx.db.query("games").order("desc").collect();
+  },
+});
+
+// Add a game to the catalog
+export const createGame = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    title: v.string(),
+    swfUrl: v.string(),
+    thumbnail: v.string(),
+    description: v.optional(v.string()),
+    tags: v.array(v.string()),
+    category: v.string(),
+    difficulty: difficultyValidator,
+    isMultiplayer: v.boolean(),
+    isPublished: v.boolean(),
+    scoreConfig: v.optional(scoreConfigValidator),
+    swfStorageId: v.optional(v.id("_storage")),
+    thumbnailStorageId: v.optional(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionToken);
+    validateGameFields(args);
+
+    if (!args.swfUrl.trim() && !args.swfStorageId) {
+      throw new Error("SWF URL or upload is required");
     }
 
-    if (args.multiplayerOnly) {
-      query = query.filter((q) => q.eq(q.field("isMultiplayer"), true));
+    const { sessionToken: _sessionToken, swfStorageId, thumbnailStorageId, ...fields } = args;
+    const gameId = await ctx.db.insert("games", {
+      ...fields,
+      ...(await getUploadFields(ctx, undefined, { swfStorageId, thumbnailStorageId }, fields.description)),
+      title: fields.title.trim(),
+      category: fields.category.trim(),
+      playCount: 0,
+    });
+    await syncCatalogIndex(ctx, null, (await ctx.db.get(gameId))!);
+
+    return { success: true, gameId };
+  },
+});
+
+// Update a game's catalog fields
+export const updateGame = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    title: v.optional(v.string()),
+    swfUrl: v.optional(v.string()),
+    thumbnail: v.optional(v.string()),
+    description: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+    category: v.optional(v.string()),
+    difficulty: v.optional(difficultyValidator),
+    isMultiplayer: v.optional(v.boolean()),
+    isPublished: v.optional(v.boolean()),
+    scoreConfig: v.optional(scoreConfigValidator), // Replaces the whole config
+    swfStorageId: v.optional(v.id("_storage")),
+    thumbnailStorageId: v.optional(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionToken);
+    validateGameFields(args);
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    if (args.swfUrl !== undefined && !args.swfUrl.trim() && !(args.swfStorageId ?? game.swfStorageId)) {
+      throw new Error("SWF URL or upload is required");
     }
 
-    return await query.order("desc").take(50);
+    if (args.isPublished && game.archivedAt !== undefined) {
+      throw new Error("Restore the game before publishing it");
+    }
+
+    // Only patch fields that were sent (undefined would clear them)
+    const { sessionToken: _sessionToken, gameId, swfStorageId, thumbnailStorageId, ...updates } = args;
+    if (updates.title !== undefined) updates.title = updates.title.trim();
+    if (updates.category !== undefined) updates.category = updates.category.trim();
+
+    await ctx.db.patch(gameId, {
+      ...updates,
+      ...(await getUploadFields(
+        ctx,
+        gameId,
+        { swfStorageId, thumbnailStorageId },
+        updates.description ?? game.description
+      )),
+    });
+    await syncCatalogIndex(ctx, game, (await ctx.db.get(gameId))!);
+
+    // Replaced files are no longer served
+    if (swfStorageId && game.swfStorageId && game.swfStorageId !== swfStorageId) {
+      await ctx.storage.delete(game.swfStorageId);
+    }
+    if (thumbnailStorageId && game.thumbnailStorageId && game.thumbnailStorageId !== thumbnailStorageId) {
+      await ctx.storage.delete(game.thumbnailStorageId);
+    }
+
+    return { success: true };
   },
 });
 
-// Get single game
-export const getGame = query({
-  args: { gameId: v.id("games") },
+// Archive a game: hides it from the catalog but keeps its sessions and scores
+export const archiveGame = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionToken);
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    await ctx.db.patch(args.gameId, {
+      isPublished: false,
+      archivedAt: Date.now(),
+    });
+    await syncCatalogIndex(ctx, game, (await ctx.db.get(args.gameId))!);
+
+    return { success: true };
+  },
+});
+
+// Restore an archived game (it stays unpublished until an admin publishes it)
+export const restoreGame = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.gameId);
+    await requireAdmin(ctx, args.sessionToken);
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    await ctx.db.patch(args.gameId, { archivedAt: undefined });
+
+    return { success: true };
+  },
+});
+
+// Check the caller is an admin (actions can't read auth state from the database)
+export const assertAdmin = internalQuery({
+  args: { sessionToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const user = await requireAdmin(ctx, args.sessionToken);
+    return user._id;
+  },
+});
+
+// Record a validated SWF upload. Called by swfUpload.validateSwfUpload.
+export const recordSwfUpload = internalMutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    fileSize: v.number(),
+    compression: v.union(v.literal("none"), v.literal("zlib"), v.literal("lzma")),
+    declaredSize: v.number(),
+    ...swfMetadataArgs,
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx, args.sessionToken);
+
+    const { sessionToken: _sessionToken, ...upload } = args;
+    return await ctx.db.insert("swf_uploads", {
+      ...upload,
+      uploadedBy: admin._id,
+      uploadedAt: Date.now(),
+    });
+  },
+});
+
+// Where to read a game's SWF from. Called by swfUpload.extractGameSwfMetadata.
+export const getGameSwfSource = internalQuery({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionToken);
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    return { swfUrl: game.swfUrl, swfStorageId: game.swfStorageId };
+  },
+});
+
+// Store metadata read from a game's SWF (keeps an admin-written description)
+export const applySwfMetadata = internalMutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    ...swfMetadataArgs,
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionToken);
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const { sessionToken: _sessionToken, gameId, description, ...metadata } = args;
+    await ctx.db.patch(gameId, {
+      ...metadata,
+      ...(!game.description?.trim() && description ? { description } : {}),
+    });
+
+    return { success: true };
+  },
+});
+
+// Rebuild game_tags and catalog_counts from the games table
+// Run once after deploying them: npx convex run games:rebuildCatalogIndex
+export const rebuildCatalogIndex = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    for (const row of await ctx.db.query("game_tags").collect()) {
+      await ctx.db.delete(row._id);
+    }
+    for (const cell of await ctx.db.query("catalog_counts").collect()) {
+      await ctx.db.delete(cell._id);
+    }
+
+    const games = await ctx.db.query("games").collect();
+    for (const game of games) {
+      await syncCatalogIndex(ctx, null, game);
+    }
+
+    return { gameCount: games.length };
   },
 });
 
@@ -590,7 +1272,8 @@ export const seedGames = mutation({
       // Check if game already exists to avoid duplicates
       const existing = await ctx.db.query("games").filter(q => q.eq(q.field("title"), game.title)).take(1);
       if (existing.length === 0) {
-        await ctx.db.insert("games", game);
+        const gameId = await ctx.db.insert("games", game);
+        await syncCatalogIndex(ctx, null, (await ctx.db.get(gameId))!);
       }
     }
 
@@ -4,7 +4,37 @@
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { evaluateAchievements } from "./achievementRules";
+import { assertActingAs, requireUser } from "./auth";
+
+/**
+ * Attach a shared screenshot or clip with its URL and game (null once it's deleted)
+ */
+async function withAttachments(ctx: QueryCtx, message: Doc<"guild_messages">) {
+  const screenshot = message.screenshotId ? await ctx.db.get(message.screenshotId) : null;
+  const clip = message.clipId ? await ctx.db.get(message.clipId) : null;
+
+  const gameTitle = async (gameId: Id<"games">) => (await ctx.db.get(gameId))?.title ?? "Unknown game";
+
+  return {
+    ...message,
+    screenshot: screenshot && {
+      url: await ctx.storage.getUrl(screenshot.storageId),
+      gameId: screenshot.gameId,
+      gameTitle: await gameTitle(screenshot.gameId),
+    },
+    clip: clip && {
+      url: await ctx.storage.getUrl(clip.storageId),
+      gameId: clip.gameId,
+      gameTitle: await gameTitle(clip.gameId),
+      title: clip.title,
+      trimStart: clip.trimStart,
+      trimEnd: clip.trimEnd,
+    },
+  };
+}
 
 // ========== QUERIES ==========
 
@@ -26,7 +56,7 @@ export const getGuildMessages = query({
       .take(limit);
 
     // Reverse to show oldest first
-    return messages.reverse();
+    return await Promise.all(messages.reverse().map((message) => withAttachments(ctx, message)));
   },
 });
 
@@ -45,7 +75,7 @@ export const getNewMessages = query({
       .filter((q) => q.gt(q.field("timestamp"), args.afterTimestamp))
       .collect();
 
-    return messages;
+    return await Promise.all(messages.map((message) => withAttachments(ctx, message)));
   },
 });
 
@@ -72,10 +102,15 @@ export const getGuildMessageCount = query({
 export const sendMessage = mutation({
   args: {
     guildId: v.id("guilds"),
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
     content: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
     // Validate message content
     if (!args.content.trim()) {
       throw new Error("Message cannot be empty");
@@ -89,7 +124,7 @@ export const sendMessage = mutation({
     const membership = await ctx.db
       .query("guild_members")
       .withIndex("by_guild_and_user", (q) =>
-        q.eq("guildId", args.guildId).eq("userId", args.userId)
+        q.eq("guildId", args.guildId).eq("userId", user._id)
       )
       .first();
 
@@ -97,22 +132,134 @@ export const sendMessage = mutation({
       throw new Error("You are not a member of this guild");
     }
 
-    // Get user info for denormalized data
-    const user = await ctx.db.get(args.userId);
-    if (!user) {
-      throw new Error("User not found");
-    }
-
     // Create message
     const messageId = await ctx.db.insert("guild_messages", {
       guildId: args.guildId,
-      userId: args.userId,
+      userId: user._id,
       username: user.username ?? "",
       avatarUrl: user.avatarUrl,
       content: args.content.trim(),
       timestamp: Date.now(),
     });
 
+    await evaluateAchievements(ctx, user._id, ["guildMessages"]);
+
+    return {
+      success: true,
+      messageId,
+      timestamp: Date.now(),
+    };
+  },
+});
+
+/**
+ * Share one of the caller's screenshots to their guild chat
+ */
+export const shareScreenshot = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    screenshotId: v.id("screenshots"),
+    content: v.optional(v.string()), // Caption
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const screenshot = await ctx.db.get(args.screenshotId);
+    if (!screenshot || screenshot.userId !== user._id) {
+      throw new Error("Screenshot not found");
+    }
+
+    const content = args.content?.trim() ?? "";
+    if (content.length > 500) {
+      throw new Error("Message too long (max 500 characters)");
+    }
+
+    if (!user.guildId) {
+      throw new Error("Join a guild to share screenshots");
+    }
+    const guildId = user.guildId;
+
+    const membership = await ctx.db
+      .query("guild_members")
+      .withIndex("by_guild_and_user", (q) =>
+        q.eq("guildId", guildId).eq("userId", user._id)
+      )
+      .first();
+
+    if (!membership) {
+      throw new Error("You are not a member of this guild");
+    }
+
+    const messageId = await ctx.db.insert("guild_messages", {
+      guildId,
+      userId: user._id,
+      username: user.username ?? "",
+      avatarUrl: user.avatarUrl,
+      content,
+      screenshotId: screenshot._id,
+      timestamp: Date.now(),
+    });
+
+    await evaluateAchievements(ctx, user._id, ["guildMessages"]);
+
+    return {
+      success: true,
+      messageId,
+      timestamp: Date.now(),
+    };
+  },
+});
+
+/**
+ * Share one of the caller's clips to their guild chat
+ */
+export const shareClip = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    clipId: v.id("clips"),
+    content: v.optional(v.string()), // Caption
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const clip = await ctx.db.get(args.clipId);
+    if (!clip || clip.userId !== user._id) {
+      throw new Error("Clip not found");
+    }
+
+    const content = args.content?.trim() ?? "";
+    if (content.length > 500) {
+      throw new Error("Message too long (max 500 characters)");
+    }
+
+    if (!user.guildId) {
+      throw new Error("Join a guild to share clips");
+    }
+    const guildId = user.guildId;
+
+    const membership = await ctx.db
+      .query("guild_members")
+      .withIndex("by_guild_and_user", (q) =>
+        q.eq("guildId", guildId).eq("userId", user._id)
+      )
+      .first();
+
+    if (!membership) {
+      throw new Error("You are not a member of this guild");
+    }
+
+    const messageId = await ctx.db.insert("guild_messages", {
+      guildId,
+      userId: user._id,
+      username: user.username ?? "",
+      avatarUrl: user.avatarUrl,
+      content,
+      clipId: clip._id,
+      timestamp: Date.now(),
+    });
+
+    await evaluateAchievements(ctx, user._id, ["guildMessages"]);
+
     return {
       success: true,
       messageId,
@@ -127,16 +274,21 @@ export const sendMessage = mutation({
 export const deleteMessage = mutation({
   args: {
     messageId: v.id("guild_messages"),
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
     const message = await ctx.db.get(args.messageId);
     if (!message) {
       throw new Error("Message not found");
     }
 
     // Check if user is the author
-    if (message.userId === args.userId) {
+    if (message.userId === user._id) {
       await ctx.db.delete(args.messageId);
       return { success: true };
     }
@@ -145,7 +297,7 @@ export const deleteMessage = mutation({
     const membership = await ctx.db
       .query("guild_members")
       .withIndex("by_guild_and_user", (q) =>
-        q.eq("guildId", message.guildId).eq("userId", args.userId)
+        q.eq("guildId", message.guildId).eq("userId", user._id)
       )
       .first();
 
@@ -168,16 +320,21 @@ export const deleteMessage = mutation({
 export const clearGuildMessages = mutation({
   args: {
     guildId: v.id("guilds"),
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
     const guild = await ctx.db.get(args.guildId);
     if (!guild) {
       throw new Error("Guild not found");
     }
 
     // Check if user is owner
-    if (guild.ownerId !== args.userId) {
+    if (guild.ownerId !== user._id) {
       throw new Error("Only the guild owner can clear all messages");
     }
 
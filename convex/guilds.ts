@@ -5,6 +5,8 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { evaluateAchievements } from "./achievementRules";
+import { assertActingAs, requireUser } from "./auth";
 import { calculateLevelFromExp } from "./utils";
 
 // ========== QUERIES ==========
@@ -211,18 +213,18 @@ export const getUserGuildRole = query({
  */
 export const createGuild = mutation({
   args: {
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
     name: v.string(),
     description: v.string(),
     isPrivate: v.boolean(),
   },
   handler: async (ctx, args) => {
-    // Check if user is already in a guild
-    const user = await ctx.db.get(args.userId);
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
 
+    // Check if user is already in a guild
     if (user.guildId) {
       throw new Error("You are already in a guild. Leave your current guild first.");
     }
@@ -246,7 +248,7 @@ export const createGuild = mutation({
     const guildId = await ctx.db.insert("guilds", {
       name: args.name,
       description: args.description,
-      ownerId: args.userId,
+      ownerId: user._id,
       isPrivate: args.isPrivate,
       memberCount: 1,
       totalExp: user.exp ?? 0, // Start with creator's XP
@@ -257,21 +259,23 @@ export const createGuild = mutation({
     // Add creator as owner member
     await ctx.db.insert("guild_members", {
       guildId,
-      userId: args.userId,
+      userId: user._id,
       role: "owner",
       joinedAt: Date.now(),
     });
 
     // Update user's guild
-    await ctx.db.patch(args.userId, {
+    await ctx.db.patch(user._id, {
       guildId,
     });
 
     // Award XP for creating guild
-    await ctx.db.patch(args.userId, {
+    await ctx.db.patch(user._id, {
       exp: (user.exp ?? 0) + 100,
     });
 
+    await evaluateAchievements(ctx, user._id, ["guildJoined", "level", "exp"]);
+
     return { success: true, guildId };
   },
 });
@@ -281,14 +285,14 @@ export const createGuild = mutation({
  */
 export const joinGuild = mutation({
   args: {
-    userId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
     guildId: v.id("guilds"),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db.get(args.userId);
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
 
     const guild = await ctx.db.get(args.guildId);
     if (!guild) {
@@ -309,7 +313,7 @@ export const joinGuild = mutation({
     const existing = await ctx.db
       .query("guild_members")
       .withIndex("by_guild_and_user", (q) =>
-        q.eq("guildId", args.guildId).eq("userId", args.userId)
+        q.eq("guildId", args.guildId).eq("userId", user._id)
       )
       .first();
 
@@ -320,7 +324,7 @@ export const joinGuild = mutation({
     // Add user to guild
     await ctx.db.insert("guild_members", {
       guildId: args.guildId,
-      userId: args.userId,
+      userId: user._id,
       role: "member",
       joinedAt: Date.now(),
     });
@@ -333,10 +337,12 @@ export const joinGuild = mutation({
     });
 
     // Update user's guild
-    await ctx.db.patch(args.userId, {
+    await ctx.db.patch(user._id, {
       guildId: args.guildId,
     });
 
+    await evaluateAchievements(ctx, user._id, ["guildJoined"]);
+
     return { success: true };
   },
 });
@@ -345,10 +351,16 @@ export const joinGuild = mutation({
  * Leave a guild
  */
 export const leaveGuild = mutation({
-  args: { userId: v.id("users") },
+  args: {
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.id("users")),
+  },
   handler: async (ctx, args) => {
-    const user = await ctx.db.get(args.userId);
-    if (!user || !user.guildId) {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
+
+    if (!user.guildId) {
       throw new Error("You are not in a guild");
     }
 
@@ -358,7 +370,7 @@ export const leaveGuild = mutation({
     }
 
     // Check if user is the owner
-    if (guild.ownerId === args.userId) {
+    if (guild.ownerId === user._id) {
       // Transfer ownership to another admin, or delete guild if no other members
       const members = await ctx.db
         .query("guild_members")
@@ -386,8 +398,8 @@ export const leaveGuild = mutation({
       } else {
         // Transfer ownership to first admin or first member
         const newOwner = members.find(
-          (m) => m.userId !== args.userId && m.role === "admin"
-        ) || members.find((m) => m.userId !== args.userId);
+          (m) => m.userId !== user._id && m.role === "admin"
+        ) || members.find((m) => m.userId !== user._id);
 
         if (newOwner) {
           await ctx.db.patch(user.guildId, {
@@ -416,7 +428,7 @@ export const leaveGuild = mutation({
         const membership = await ctx.db
           .query("guild_members")
           .withIndex("by_guild_and_user", (q) =>
-            q.eq("guildId", user.guildId!).eq("userId", args.userId)
+            q.eq("guildId", user.guildId!).eq("userId", user._id)
           )
           .first();
 
@@ -429,7 +441,7 @@ export const leaveGuild = mutation({
       const membership = await ctx.db
         .query("guild_members")
         .withIndex("by_guild_and_user", (q) =>
-          q.eq("guildId", user.guildId!).eq("userId", args.userId)
+          q.eq("guildId", user.guildId!).eq("userId", user._id)
         )
         .first();
 
@@ -446,7 +458,7 @@ export const leaveGuild = mutation({
     }
 
     // Update user
-    await ctx.db.patch(args.userId, {
+    await ctx.db.patch(user._id, {
       guildId: undefined,
     });
 
@@ -459,18 +471,23 @@ export const leaveGuild = mutation({
  */
 export const promoteMember = mutation({
   args: {
-    ownerId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    ownerId: v.optional(v.id("users")),
     memberId: v.id("users"),
     guildId: v.id("guilds"),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.ownerId);
+
     const guild = await ctx.db.get(args.guildId);
     if (!guild) {
       throw new Error("Guild not found");
     }
 
     // Check if requester is owner
-    if (guild.ownerId !== args.ownerId) {
+    if (guild.ownerId !== user._id) {
       throw new Error("Only the guild owner can promote members");
     }
 
@@ -503,18 +520,23 @@ export const promoteMember = mutation({
  */
 export const demoteMember = mutation({
   args: {
-    ownerId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    ownerId: v.optional(v.id("users")),
     memberId: v.id("users"),
     guildId: v.id("guilds"),
   },
   handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.ownerId);
+
     const guild = await ctx.db.get(args.guildId);
     if (!guild) {
       throw new Error("Guild not found");
     }
 
     // Check if requester is owner
-    if (guild.ownerId !== args.ownerId) {
+    if (guild.ownerId !== user._id) {
       throw new Error("Only the guild owner can demote members");
     }
 
@@ -547,11 +569,16 @@ export const demoteMember = mutation({
  */
 export const kickMember = mutation({
   args: {
-    kickerId: v.id("users"),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    kickerId: v.optional(v.id("users")),
     memberId: v.id("users"),
     guildId: v.id("guilds"),
   },
   handler: async (ctx, args) => {
+    const kicker = await requireUser(ctx, args.sessionToken);
+    assertActingAs(kicker, args.kickerId);
+
     const guild = await ctx.db.get(args.guildId);
     if (!guild) {
       throw new Error("Guild not found");
@@ -561,7 +588,7 @@ export const kickMember = mutation({
     const kickerMembership = await ctx.db
       .query("guild_members")
       .withIndex("by_guild_and_user", (q) =>
-        q.eq("guildId", args.guildId).eq("userId", args.kickerId)
+        q.eq("guildId", args.guildId).eq("userId", kicker._id)
       )
       .first();
 
@@ -570,7 +597,7 @@ export const kickMember = mutation({
     }
 
     // Cannot kick yourself
-    if (args.kickerId === args.memberId) {
+    if (kicker._id === args.memberId) {
       throw new Error("Cannot kick yourself. Use leave guild instead.");
     }
 
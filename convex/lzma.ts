@@ -0,0 +1,288 @@
+/**
+ * LZMA Decoder
+ * Minimal LZMA (not LZMA2/xz) decoder for ZWS-compressed SWF bodies,
+ * following the reference decoder in the LZMA SDK (LzmaSpec).
+ * The whole output is kept in memory, so it doubles as the dictionary.
+ */
+
+const NUM_BIT_MODEL_TOTAL_BITS = 11;
+const BIT_MODEL_TOTAL = 1 << NUM_BIT_MODEL_TOTAL_BITS;
+const NUM_MOVE_BITS = 5;
+const PROB_INIT = BIT_MODEL_TOTAL >>> 1;
+const TOP_VALUE = 1 << 24;
+
+const NUM_STATES = 12;
+const NUM_POS_BITS_MAX = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const NUM_ALIGN_BITS = 4;
+const START_POS_MODEL_INDEX = 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >>> 1);
+const MATCH_MIN_LEN = 2;
+const END_MARKER_DISTANCE = 0xffffffff;
+
+function createProbs(count: number): Uint16Array {
+  return new Uint16Array(count).fill(PROB_INIT);
+}
+
+class RangeDecoder {
+  private range = 0xffffffff;
+  private code = 0;
+
+  constructor(private input: Uint8Array, private pos: number) {
+    if (this.nextByte() !== 0) {
+      throw new Error("Corrupted LZMA stream");
+    }
+    for (let i = 0; i < 4; i++) {
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+    if (this.code === this.range) {
+      throw new Error("Corrupted LZMA stream");
+    }
+  }
+
+  private nextByte(): number {
+    if (this.pos >= this.input.length) {
+      throw new Error("Unexpected end of LZMA stream");
+    }
+    return this.input[this.pos++];
+  }
+
+  private normalize() {
+    if (this.range < TOP_VALUE) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const prob = probs[index];
+    const bound = (this.range >>> NUM_BIT_MODEL_TOTAL_BITS) * prob;
+    let bit: number;
+
+    if (this.code < bound) {
+      probs[index] = prob + ((BIT_MODEL_TOTAL - prob) >>> NUM_MOVE_BITS);
+      this.range = bound;
+      bit = 0;
+    } else {
+      probs[index] = prob - (prob >>> NUM_MOVE_BITS);
+      this.code -= bound;
+      this.range -= bound;
+      bit = 1;
+    }
+
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(numBits: number): number {
+    let result = 0;
+    for (let i = 0; i < numBits; i++) {
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = result * 2 + bit;
+      this.normalize();
+    }
+    return result;
+  }
+
+  bitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      m = (m << 1) + this.decodeBit(probs, offset + m);
+    }
+    return m - (1 << numBits);
+  }
+
+  reverseBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = (m << 1) + bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+}
+
+/**
+ * Match length decoder: choice bits, then low (0-7), mid (8-15) or high (16-271)
+ */
+class LengthDecoder {
+  // [choice, choice2, low trees, mid trees, high tree]
+  private probs = createProbs(2 + 2 * (8 << NUM_POS_BITS_MAX) + 256);
+
+  decode(rc: RangeDecoder, posState: number): number {
+    const midOffset = 2 + (8 << NUM_POS_BITS_MAX);
+    const highOffset = midOffset + (8 << NUM_POS_BITS_MAX);
+
+    if (rc.decodeBit(this.probs, 0) === 0) {
+      return rc.bitTree(this.probs, 2 + posState * 8, 3);
+    }
+    if (rc.decodeBit(this.probs, 1) === 0) {
+      return 8 + rc.bitTree(this.probs, midOffset + posState * 8, 3);
+    }
+    return 16 + rc.bitTree(this.probs, highOffset, 8);
+  }
+}
+
+/**
+ * Decode a raw LZMA stream with known uncompressed size
+ * @param properties The 5-byte LZMA properties (lc/lp/pb byte + dictionary size)
+ */
+export function decodeLzma(
+  properties: Uint8Array,
+  input: Uint8Array,
+  outputSize: number
+): Uint8Array {
+  let d = properties[0];
+  if (d >= 9 * 5 * 5) {
+    throw new Error("Invalid LZMA properties");
+  }
+  const lc = d % 9;
+  d = Math.floor(d / 9);
+  const lp = d % 5;
+  const pb = Math.floor(d / 5);
+
+  const rc = new RangeDecoder(input, 0);
+  const output = new Uint8Array(outputSize);
+  let outPos = 0;
+
+  const literalProbs = createProbs(0x300 << (lc + lp));
+  const posSlotProbs = createProbs(NUM_LEN_TO_POS_STATES << 6);
+  const posProbs = createProbs(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX);
+  const alignProbs = createProbs(1 << NUM_ALIGN_BITS);
+  const isMatch = createProbs(NUM_STATES << NUM_POS_BITS_MAX);
+  const isRep = createProbs(NUM_STATES);
+  const isRepG0 = createProbs(NUM_STATES);
+  const isRepG1 = createProbs(NUM_STATES);
+  const isRepG2 = createProbs(NUM_STATES);
+  const isRep0Long = createProbs(NUM_STATES << NUM_POS_BITS_MAX);
+  const lenDecoder = new LengthDecoder();
+  const repLenDecoder = new LengthDecoder();
+
+  const decodeDistance = (len: number): number => {
+    const lenState = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+    const posSlot = rc.bitTree(posSlotProbs, lenState << 6, 6);
+    if (posSlot < START_POS_MODEL_INDEX) return posSlot;
+
+    const numDirectBits = (posSlot >>> 1) - 1;
+    let dist = (2 | (posSlot & 1)) * Math.pow(2, numDirectBits);
+
+    if (posSlot < END_POS_MODEL_INDEX) {
+      return dist + rc.reverseBitTree(posProbs, dist - posSlot, numDirectBits);
+    }
+
+    dist += rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * (1 << NUM_ALIGN_BITS);
+    return dist + rc.reverseBitTree(alignProbs, 0, NUM_ALIGN_BITS);
+  };
+
+  let state = 0;
+  let rep0 = 0;
+  let rep1 = 0;
+  let rep2 = 0;
+  let rep3 = 0;
+  const pbMask = (1 << pb) - 1;
+  const lpMask = (1 << lp) - 1;
+
+  while (outPos < outputSize) {
+    const posState = outPos & pbMask;
+
+    // Literal byte
+    if (rc.decodeBit(isMatch, (state << NUM_POS_BITS_MAX) + posState) === 0) {
+      const prevByte = outPos > 0 ? output[outPos - 1] : 0;
+      const litState = ((outPos & lpMask) << lc) + (prevByte >>> (8 - lc));
+      const base = 0x300 * litState;
+      let symbol = 1;
+
+      // After a match, the byte at rep0 steers the probabilities until they diverge
+      if (state >= 7) {
+        if (rep0 >= outPos) {
+          throw new Error("Corrupted LZMA stream");
+        }
+        let matchByte = output[outPos - rep0 - 1];
+        while (symbol < 0x100) {
+          const matchBit = (matchByte >>> 7) & 1;
+          matchByte <<= 1;
+          const bit = rc.decodeBit(literalProbs, base + ((1 + matchBit) << 8) + symbol);
+          symbol = (symbol << 1) | bit;
+          if (matchBit !== bit) break;
+        }
+      }
+
+      while (symbol < 0x100) {
+        symbol = (symbol << 1) | rc.decodeBit(literalProbs, base + symbol);
+      }
+
+      output[outPos++] = symbol - 0x100;
+      state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+      continue;
+    }
+
+    let len: number;
+
+    if (rc.decodeBit(isRep, state) !== 0) {
+      if (outPos === 0) {
+        throw new Error("Corrupted LZMA stream");
+      }
+
+      if (rc.decodeBit(isRepG0, state) === 0) {
+        // Single byte at rep0
+        if (rc.decodeBit(isRep0Long, (state << NUM_POS_BITS_MAX) + posState) === 0) {
+          state = state < 7 ? 9 : 11;
+          output[outPos] = output[outPos - rep0 - 1];
+          outPos++;
+          continue;
+        }
+      } else {
+        let dist: number;
+        if (rc.decodeBit(isRepG1, state) === 0) {
+          dist = rep1;
+        } else {
+          if (rc.decodeBit(isRepG2, state) === 0) {
+            dist = rep2;
+          } else {
+            dist = rep3;
+            rep3 = rep2;
+          }
+          rep2 = rep1;
+        }
+        rep1 = rep0;
+        rep0 = dist;
+      }
+
+      len = repLenDecoder.decode(rc, posState);
+      state = state < 7 ? 8 : 11;
+    } else {
+      rep3 = rep2;
+      rep2 = rep1;
+      rep1 = rep0;
+      len = lenDecoder.decode(rc, posState);
+      state = state < 7 ? 7 : 10;
+      rep0 = decodeDistance(len);
+
+      if (rep0 === END_MARKER_DISTANCE) break;
+    }
+
+    if (rep0 >= outPos) {
+      throw new Error("Corrupted LZMA stream");
+    }
+
+    len += MATCH_MIN_LEN;
+    for (let i = 0; i < len && outPos < outputSize; i++) {
+      output[outPos] = output[outPos - rep0 - 1];
+      outPos++;
+    }
+  }
+
+  if (outPos !== outputSize) {
+    throw new Error("LZMA stream ended early");
+  }
+
+  return output;
+}
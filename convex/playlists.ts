@@ -0,0 +1,287 @@
+/**
+ * Playlists Module
+ * Named, ordered lists of games. Public playlists can be opened by anyone with the link;
+ * private ones only by their owner.
+ */
+
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { getAuthenticatedUser, requireUser } from "./auth";
+import { withStorageUrls } from "./games";
+
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_GAMES_PER_PLAYLIST = 200;
+const MAX_PLAYLISTS_PER_USER = 50;
+
+/**
+ * Validate a playlist name and description
+ */
+function validatePlaylistFields(fields: { name?: string; description?: string }) {
+  if (fields.name !== undefined) {
+    const name = fields.name.trim();
+    if (!name) {
+      throw new Error("Playlist name is required");
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Playlist name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+  if (fields.description !== undefined && fields.description.trim().length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+}
+
+/**
+ * Load a playlist the caller owns, or throw
+ */
+async function getOwnedPlaylist(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  playlistId: Id<"playlists">
+): Promise<Doc<"playlists">> {
+  const playlist = await ctx.db.get(playlistId);
+  if (!playlist || playlist.ownerId !== user._id) {
+    throw new Error("Playlist not found");
+  }
+  return playlist;
+}
+
+// ========== QUERIES ==========
+
+/**
+ * Get the caller's playlists (most recently updated first)
+ */
+export const getMyPlaylists = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user) return [];
+
+    const playlists = await ctx.db
+      .query("playlists")
+      .withIndex("by_owner", (q) => q.eq("ownerId", user._id))
+      .collect();
+
+    return playlists.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+/**
+ * Get a playlist with its games in order
+ * Returns null for unknown ids (links can be mangled) and for private playlists
+ * of other players. Games that were removed or unpublished are skipped.
+ */
+export const getPlaylist = query({
+  args: {
+    playlistId: v.string(),
+    sessionToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const playlistId = ctx.db.normalizeId("playlists", args.playlistId);
+    const playlist = playlistId ? await ctx.db.get(playlistId) : null;
+    if (!playlist) return null;
+
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    const isOwner = !!user && playlist.ownerId === user._id;
+    if (!playlist.isPublic && !isOwner) return null;
+
+    const games = [];
+    for (const gameId of playlist.gameIds) {
+      const game = await ctx.db.get(gameId);
+      if (game && game.isPublished !== false) {
+        games.push(await withStorageUrls(ctx, game));
+      }
+    }
+
+    const owner = await ctx.db.get(playlist.ownerId);
+
+    return {
+      ...playlist,
+      games,
+      ownerUsername: owner?.username ?? "Unknown",
+      isOwner,
+    };
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Create a playlist, optionally starting with a game
+ */
+export const createPlaylist = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    name: v.string(),
+    description: v.optional(v.string()),
+    isPublic: v.boolean(),
+    gameId: v.optional(v.id("games")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    validatePlaylistFields(args);
+
+    const existing = await ctx.db
+      .query("playlists")
+      .withIndex("by_owner", (q) => q.eq("ownerId", user._id))
+      .collect();
+
+    if (existing.length >= MAX_PLAYLISTS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_PLAYLISTS_PER_USER} playlists`);
+    }
+
+    if (args.gameId && !(await ctx.db.get(args.gameId))) {
+      throw new Error("Game not found");
+    }
+
+    const now = Date.now();
+    const playlistId = await ctx.db.insert("playlists", {
+      ownerId: user._id,
+      name: args.name.trim(),
+      description: args.description?.trim() || undefined,
+      isPublic: args.isPublic,
+      gameIds: args.gameId ? [args.gameId] : [],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { success: true, playlistId };
+  },
+});
+
+/**
+ * Rename a playlist, change its description or make it public/private
+ */
+export const updatePlaylist = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    playlistId: v.id("playlists"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    isPublic: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await getOwnedPlaylist(ctx, user, args.playlistId);
+    validatePlaylistFields(args);
+
+    await ctx.db.patch(args.playlistId, {
+      ...(args.name !== undefined ? { name: args.name.trim() } : {}),
+      ...(args.description !== undefined ? { description: args.description.trim() || undefined } : {}),
+      ...(args.isPublic !== undefined ? { isPublic: args.isPublic } : {}),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a playlist
+ */
+export const deletePlaylist = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    playlistId: v.id("playlists"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    await getOwnedPlaylist(ctx, user, args.playlistId);
+
+    await ctx.db.delete(args.playlistId);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Append a game to a playlist (no-op if it's already in it)
+ */
+export const addGameToPlaylist = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    playlistId: v.id("playlists"),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const playlist = await getOwnedPlaylist(ctx, user, args.playlistId);
+
+    if (playlist.gameIds.includes(args.gameId)) {
+      return { success: true, added: false };
+    }
+
+    if (playlist.gameIds.length >= MAX_GAMES_PER_PLAYLIST) {
+      throw new Error(`Playlists can hold at most ${MAX_GAMES_PER_PLAYLIST} games`);
+    }
+
+    if (!(await ctx.db.get(args.gameId))) {
+      throw new Error("Game not found");
+    }
+
+    await ctx.db.patch(args.playlistId, {
+      gameIds: [...playlist.gameIds, args.gameId],
+      updatedAt: Date.now(),
+    });
+
+    return { success: true, added: true };
+  },
+});
+
+/**
+ * Remove a game from a playlist
+ */
+export const removeGameFromPlaylist = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    playlistId: v.id("playlists"),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const playlist = await getOwnedPlaylist(ctx, user, args.playlistId);
+
+    await ctx.db.patch(args.playlistId, {
+      gameIds: playlist.gameIds.filter((id) => id !== args.gameId),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Reorder a playlist; gameIds must contain exactly the playlist's current games
+ */
+export const reorderPlaylist = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    playlistId: v.id("playlists"),
+    gameIds: v.array(v.id("games")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    const playlist = await getOwnedPlaylist(ctx, user, args.playlistId);
+
+    const current = new Set(playlist.gameIds);
+    const isPermutation =
+      args.gameIds.length === playlist.gameIds.length &&
+      new Set(args.gameIds).size === args.gameIds.length &&
+      args.gameIds.every((id) => current.has(id));
+
+    if (!isPermutation) {
+      throw new Error("Playlist changed; refresh and try again");
+    }
+
+    await ctx.db.patch(args.playlistId, {
+      gameIds: args.gameIds,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
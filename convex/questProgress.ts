@@ -0,0 +1,152 @@
+/**
+ * Quest Progress Helpers
+ * Advances the current daily/weekly quests when a game session closes.
+ * Used by gameSessions.endSession, startSession (replaced sessions) and reapStaleSessions.
+ */
+
+import { Doc } from "./_generated/dataModel";
+import { MutationCtx } from "./_generated/server";
+import { getPeriodStart, isUserOnline, MIN_QUALIFYING_ACTIVE_MS } from "./utils";
+
+/**
+ * Check whether any of the user's accepted friends is online
+ */
+async function hasFriendOnline(ctx: MutationCtx, user: Doc<"users">): Promise<boolean> {
+  const asRequester = await ctx.db
+    .query("friendships")
+    .withIndex("by_requester", (q) => q.eq("requesterId", user._id))
+    .filter((q) => q.eq(q.field("status"), "accepted"))
+    .collect();
+
+  const asRecipient = await ctx.db
+    .query("friendships")
+    .withIndex("by_recipient_and_status", (q) =>
+      q.eq("recipientId", user._id).eq("status", "accepted")
+    )
+    .collect();
+
+  const friendIds = [
+    ...asRequester.map((f) => f.recipientId),
+    ...asRecipient.map((f) => f.requesterId),
+  ];
+
+  for (const friendId of friendIds) {
+    const friend = await ctx.db.get(friendId);
+    if (friend && isUserOnline(friend.lastSeen ?? 0)) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Count the distinct games a user has played since a timestamp
+ * Only sessions with enough credited active time count.
+ */
+async function countDistinctGamesSince(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  since: number
+): Promise<number> {
+  const sessions = await ctx.db
+    .query("game_sessions")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .filter((q) => q.gte(q.field("startTime"), since))
+    .collect();
+
+  const played = sessions.filter((s) => (s.activeMs ?? 0) >= MIN_QUALIFYING_ACTIVE_MS);
+  return new Set(played.map((s) => s.gameId)).size;
+}
+
+/**
+ * Advance the user's current quests with a closed game session
+ * Sessions without enough credited active time (opened and closed) don't count.
+ */
+export async function recordSessionForQuests(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  session: Doc<"game_sessions">,
+  result: { activeMs: number; duration: number; completed: boolean }
+) {
+  if (result.activeMs < MIN_QUALIFYING_ACTIVE_MS) return;
+
+  const now = Date.now();
+  const activeQuests = [
+    ...(await ctx.db
+      .query("active_quests")
+      .withIndex("by_period_and_start", (q) =>
+        q.eq("period", "daily").eq("periodStart", getPeriodStart("daily", now))
+      )
+      .collect()),
+    ...(await ctx.db
+      .query("active_quests")
+      .withIndex("by_period_and_start", (q) =>
+        q.eq("period", "weekly").eq("periodStart", getPeriodStart("weekly", now))
+      )
+      .collect()),
+  ];
+
+  if (activeQuests.length === 0) return;
+
+  const game = await ctx.db.get(session.gameId);
+  let friendOnline: boolean | undefined;
+
+  for (const activeQuest of activeQuests) {
+    const template = await ctx.db.get(activeQuest.templateId);
+    if (!template) continue;
+
+    const userQuest = await ctx.db
+      .query("user_quests")
+      .withIndex("by_user_and_quest", (q) =>
+        q.eq("userId", user._id).eq("activeQuestId", activeQuest._id)
+      )
+      .first();
+
+    if (userQuest?.completedAt !== undefined) continue;
+
+    const current = userQuest?.progress ?? 0;
+    let progress = current;
+
+    switch (template.goal.type) {
+      case "playMinutes":
+        progress += result.duration;
+        break;
+
+      case "playCategoryMinutes":
+        if (game && game.category === template.goal.category) {
+          progress += result.duration;
+        }
+        break;
+
+      case "playDistinctGames":
+        progress = await countDistinctGamesSince(ctx, user, activeQuest.periodStart);
+        break;
+
+      case "completeGames":
+        if (result.completed) progress += 1;
+        break;
+
+      case "playWithFriendOnline":
+        if (result.duration > 0) {
+          friendOnline ??= await hasFriendOnline(ctx, user);
+          if (friendOnline) progress += 1;
+        }
+        break;
+    }
+
+    if (progress === current) continue;
+
+    const completedAt = progress >= template.goal.target ? now : undefined;
+    progress = Math.min(progress, template.goal.target);
+
+    if (userQuest) {
+      await ctx.db.patch(userQuest._id, { progress, completedAt });
+    } else {
+      await ctx.db.insert("user_quests", {
+        userId: user._id,
+        activeQuestId: activeQuest._id,
+        progress,
+        completedAt,
+      });
+    }
+  }
+}
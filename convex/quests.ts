@@ -0,0 +1,290 @@
+/**
+ * Quests Module
+ * Rotating daily/weekly quests, per-user progress and reward claims.
+ * Progress is advanced in questProgress.ts when game sessions close.
+ */
+
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internalMutation, mutation, MutationCtx, query } from "./_generated/server";
+import { evaluateAchievements } from "./achievementRules";
+import { getAuthenticatedUser, requireUser } from "./auth";
+import { calculateLevelFromExp, getPeriodEnd, getPeriodStart } from "./utils";
+
+type QuestPeriod = Doc<"quest_templates">["period"];
+
+// How many quests are rotated in per period
+const QUESTS_PER_PERIOD: Record<QuestPeriod, number> = {
+  daily: 3,
+  weekly: 2,
+};
+
+/**
+ * Rotate quests into the current day and week if they have none yet
+ */
+async function rotateQuestsForNow(ctx: MutationCtx) {
+  const now = Date.now();
+  let rotated = 0;
+
+  for (const period of ["daily", "weekly"] as const) {
+    const periodStart = getPeriodStart(period, now);
+
+    const existing = await ctx.db
+      .query("active_quests")
+      .withIndex("by_period_and_start", (q) =>
+        q.eq("period", period).eq("periodStart", periodStart)
+      )
+      .first();
+
+    if (existing) continue;
+
+    const templates = await ctx.db
+      .query("quest_templates")
+      .withIndex("by_period", (q) => q.eq("period", period))
+      .collect();
+
+    // Shuffle and take the first few
+    const picked = templates
+      .map((template) => ({ template, sortKey: Math.random() }))
+      .sort((a, b) => a.sortKey - b.sortKey)
+      .slice(0, QUESTS_PER_PERIOD[period]);
+
+    for (const { template } of picked) {
+      await ctx.db.insert("active_quests", {
+        templateId: template._id,
+        period,
+        periodStart,
+        expiresAt: getPeriodEnd(period, now),
+      });
+      rotated++;
+    }
+  }
+
+  return rotated;
+}
+
+// ========== QUERIES ==========
+
+/**
+ * Get the current daily and weekly quests with the caller's progress
+ */
+export const getQuests = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    const now = Date.now();
+
+    const quests = [];
+    for (const period of ["daily", "weekly"] as const) {
+      const activeQuests = await ctx.db
+        .query("active_quests")
+        .withIndex("by_period_and_start", (q) =>
+          q.eq("period", period).eq("periodStart", getPeriodStart(period, now))
+        )
+        .collect();
+
+      for (const activeQuest of activeQuests) {
+        const template = await ctx.db.get(activeQuest.templateId);
+        if (!template) continue;
+
+        const userQuest = user
+          ? await ctx.db
+              .query("user_quests")
+              .withIndex("by_user_and_quest", (q) =>
+                q.eq("userId", user._id).eq("activeQuestId", activeQuest._id)
+              )
+              .first()
+          : null;
+
+        quests.push({
+          _id: activeQuest._id,
+          period,
+          expiresAt: activeQuest.expiresAt,
+          name: template.name,
+          description: template.description,
+          target: template.goal.target,
+          expReward: template.expReward,
+          userQuestId: userQuest?._id ?? null,
+          progress: userQuest?.progress ?? 0,
+          completed: !!userQuest && userQuest.completedAt !== undefined,
+          claimed: !!userQuest && userQuest.claimedAt !== undefined,
+        });
+      }
+    }
+
+    return quests;
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Claim the XP reward for a completed quest
+ */
+export const claimQuestReward = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    userQuestId: v.id("user_quests"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const userQuest = await ctx.db.get(args.userQuestId);
+    if (!userQuest || userQuest.userId !== user._id) {
+      throw new Error("Quest not found");
+    }
+
+    if (userQuest.completedAt === undefined) {
+      throw new Error("Quest is not completed yet");
+    }
+
+    if (userQuest.claimedAt !== undefined) {
+      throw new Error("Reward already claimed");
+    }
+
+    const activeQuest = await ctx.db.get(userQuest.activeQuestId);
+    const template = activeQuest ? await ctx.db.get(activeQuest.templateId) : null;
+    if (!template) {
+      throw new Error("Quest not found");
+    }
+
+    await ctx.db.patch(userQuest._id, { claimedAt: Date.now() });
+
+    // Award XP to user
+    const newExp = (user.exp ?? 0) + template.expReward;
+    await ctx.db.patch(user._id, {
+      exp: newExp,
+      level: calculateLevelFromExp(newExp).level,
+    });
+
+    // Update guild XP if user is in a guild
+    if (user.guildId) {
+      const guild = await ctx.db.get(user.guildId);
+      if (guild) {
+        const newGuildExp = guild.totalExp + template.expReward;
+        await ctx.db.patch(user.guildId, {
+          totalExp: newGuildExp,
+          level: calculateLevelFromExp(newGuildExp).level,
+        });
+      }
+    }
+
+    await evaluateAchievements(ctx, user._id, ["level", "exp"]);
+
+    return { success: true, expAwarded: template.expReward, totalExp: newExp };
+  },
+});
+
+// Seed the default quest templates (safe to re-run; updates by key)
+export const seedQuests = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const templates: Omit<Doc<"quest_templates">, "_id" | "_creationTime">[] = [
+      {
+        key: "daily_play_15",
+        name: "Warm Up",
+        description: "Play any game for 15 minutes",
+        period: "daily",
+        goal: { type: "playMinutes", target: 15 },
+        expReward: 50,
+      },
+      {
+        key: "daily_puzzle_15",
+        name: "Brain Teaser",
+        description: "Play a Puzzle game for 15 minutes",
+        period: "daily",
+        goal: { type: "playCategoryMinutes", category: "Puzzle", target: 15 },
+        expReward: 75,
+      },
+      {
+        key: "daily_strategy_15",
+        name: "Tactician",
+        description: "Play a Strategy game for 15 minutes",
+        period: "daily",
+        goal: { type: "playCategoryMinutes", category: "Strategy", target: 15 },
+        expReward: 75,
+      },
+      {
+        key: "daily_action_15",
+        name: "Adrenaline",
+        description: "Play an Action game for 15 minutes",
+        period: "daily",
+        goal: { type: "playCategoryMinutes", category: "Action", target: 15 },
+        expReward: 75,
+      },
+      {
+        key: "daily_distinct_3",
+        name: "Sampler",
+        description: "Play 3 different games",
+        period: "daily",
+        goal: { type: "playDistinctGames", target: 3 },
+        expReward: 60,
+      },
+      {
+        key: "daily_friend_online",
+        name: "Better Together",
+        description: "Play a game while a friend is online",
+        period: "daily",
+        goal: { type: "playWithFriendOnline", target: 1 },
+        expReward: 50,
+      },
+      {
+        key: "weekly_play_120",
+        name: "Marathon",
+        description: "Play any game for 2 hours",
+        period: "weekly",
+        goal: { type: "playMinutes", target: 120 },
+        expReward: 300,
+      },
+      {
+        key: "weekly_distinct_10",
+        name: "Explorer",
+        description: "Play 10 different games",
+        period: "weekly",
+        goal: { type: "playDistinctGames", target: 10 },
+        expReward: 250,
+      },
+      {
+        key: "weekly_complete_5",
+        name: "Finisher",
+        description: "Complete 5 games",
+        period: "weekly",
+        goal: { type: "completeGames", target: 5 },
+        expReward: 250,
+      },
+    ];
+
+    for (const template of templates) {
+      const existing = await ctx.db
+        .query("quest_templates")
+        .withIndex("by_key", (q) => q.eq("key", template.key))
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, template);
+      } else {
+        await ctx.db.insert("quest_templates", template);
+      }
+    }
+
+    // Make quests available right away instead of waiting for the next rotation
+    await rotateQuestsForNow(ctx);
+
+    return "Quests seeded successfully";
+  },
+});
+
+// ========== SCHEDULED JOBS ==========
+
+/**
+ * Rotate new quests in at the start of each day/week. Run by crons.ts.
+ */
+export const rotateQuests = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const rotated = await rotateQuestsForNow(ctx);
+    return { rotated };
+  },
+});
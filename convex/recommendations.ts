@@ -0,0 +1,183 @@
+/**
+ * Recommendations Module
+ * Scores games the player hasn't tried from their play history (category and tag
+ * affinity weighted by playtime), friends' recent plays and global popularity.
+ */
+
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { query } from "./_generated/server";
+import { getAuthenticatedUser } from "./auth";
+import { withStorageUrls } from "./games";
+
+// Latest sessions read for the player's own history and for each friend
+const HISTORY_SESSION_SCAN = 500;
+const FRIEND_SESSION_SCAN = 50;
+// Most recommendations returned per call
+const MAX_RECOMMENDATIONS = 24;
+// Friends' plays older than this don't count
+const FRIEND_PLAY_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+// This many friends playing a game gives the full friend score
+const FRIENDS_FOR_FULL_SCORE = 3;
+
+const AFFINITY_WEIGHT = 0.6;
+const FRIENDS_WEIGHT = 0.25;
+const POPULARITY_WEIGHT = 0.15;
+
+/**
+ * How alike two games are: half for a shared category, half for tag overlap (Jaccard)
+ */
+function gameSimilarity(a: Doc<"games">, b: Doc<"games">): number {
+  const tagsA = new Set(a.tags);
+  const shared = b.tags.filter((tag) => tagsA.has(tag)).length;
+  const union = new Set([...a.tags, ...b.tags]).size;
+
+  return (a.category === b.category ? 0.5 : 0) + (union > 0 ? (0.5 * shared) / union : 0);
+}
+
+// ========== QUERIES ==========
+
+/**
+ * Get recommended games the caller hasn't played, best first, each with a reason
+ * Signed-out players and players without history get friend and popularity picks.
+ */
+export const getRecommendations = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = Math.min(args.limit || 6, MAX_RECOMMENDATIONS);
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+
+    const games = await ctx.db
+      .query("games")
+      .filter((q) => q.neq(q.field("isPublished"), false))
+      .collect();
+    const gamesById = new Map(games.map((game) => [game._id, game]));
+
+    // Minutes played per game (at least 1 so a short try still counts)
+    const playtime = new Map<Id<"games">, number>();
+    const friendPlays = new Map<Id<"games">, string[]>();
+    // Games played before the scanned history window
+    const playedEarlier = new Set<Id<"games">>();
+
+    if (user) {
+      const sessions = await ctx.db
+        .query("game_sessions")
+        .withIndex("by_user", (q) => q.eq("userId", user._id))
+        .order("desc")
+        .take(HISTORY_SESSION_SCAN);
+
+      for (const session of sessions) {
+        playtime.set(session.gameId, (playtime.get(session.gameId) ?? 0) + Math.max(session.duration, 1));
+      }
+
+      // The scan only covers recent history, so check the rest of the catalogue directly
+      for (const game of games) {
+        if (playtime.has(game._id)) continue;
+
+        const session = await ctx.db
+          .query("game_sessions")
+          .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", game._id))
+          .first();
+        if (session) playedEarlier.add(game._id);
+      }
+
+      const asRequester = await ctx.db
+        .query("friendships")
+        .withIndex("by_requester", (q) => q.eq("requesterId", user._id))
+        .filter((q) => q.eq(q.field("status"), "accepted"))
+        .collect();
+
+      const asRecipient = await ctx.db
+        .query("friendships")
+        .withIndex("by_recipient", (q) => q.eq("recipientId", user._id))
+        .filter((q) => q.eq(q.field("status"), "accepted"))
+        .collect();
+
+      const friendIds = [
+        ...asRequester.map((f) => f.recipientId),
+        ...asRecipient.map((f) => f.requesterId),
+      ];
+
+      const since = Date.now() - FRIEND_PLAY_WINDOW_MS;
+      for (const friendId of friendIds) {
+        const friend = await ctx.db.get(friendId);
+        if (!friend) continue;
+
+        const friendSessions = await ctx.db
+          .query("game_sessions")
+          .withIndex("by_user", (q) => q.eq("userId", friendId))
+          .order("desc")
+          .take(FRIEND_SESSION_SCAN);
+
+        const played = new Set(
+          friendSessions.filter((s) => s.startTime >= since).map((s) => s.gameId)
+        );
+        for (const gameId of played) {
+          friendPlays.set(gameId, [...(friendPlays.get(gameId) ?? []), friend.username ?? "A friend"]);
+        }
+      }
+    }
+
+    const totalPlaytime = [...playtime.values()].reduce((sum, minutes) => sum + minutes, 0);
+    const maxPlayCount = Math.max(1, ...games.map((game) => game.playCount));
+
+    const scored = games
+      .filter((game) => !playtime.has(game._id) && !playedEarlier.has(game._id))
+      .map((game) => {
+        // Playtime-weighted similarity to the games the player already knows
+        let affinity = 0;
+        let because: Doc<"games"> | null = null;
+        let bestContribution = 0;
+
+        for (const [playedId, minutes] of playtime) {
+          const played = gamesById.get(playedId);
+          if (!played) continue;
+
+          const contribution = (minutes / totalPlaytime) * gameSimilarity(played, game);
+          affinity += contribution;
+          if (contribution > bestContribution) {
+            bestContribution = contribution;
+            because = played;
+          }
+        }
+
+        const friends = friendPlays.get(game._id) ?? [];
+        const friendScore = Math.min(friends.length / FRIENDS_FOR_FULL_SCORE, 1);
+        const popularity = Math.log1p(game.playCount) / Math.log1p(maxPlayCount);
+
+        const parts = {
+          affinity: AFFINITY_WEIGHT * affinity,
+          friends: FRIENDS_WEIGHT * friendScore,
+          popularity: POPULARITY_WEIGHT * popularity,
+        };
+
+        // Explain with whichever signal contributed most
+        let reason: string;
+        if (because && parts.affinity >= parts.friends && parts.affinity >= parts.popularity) {
+          reason = `Because you played ${because.title}`;
+        } else if (friends.length > 0 && parts.friends >= parts.popularity) {
+          reason =
+            friends.length === 1
+              ? `${friends[0]} played this recently`
+              : `${friends[0]} and ${friends.length - 1} other ${friends.length === 2 ? "friend" : "friends"} played this recently`;
+        } else {
+          reason = "Popular on NRetrocade";
+        }
+
+        return { game, score: parts.affinity + parts.friends + parts.popularity, reason };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return await Promise.all(
+      scored.map(async ({ game, score, reason }) => ({
+        game: await withStorageUrls(ctx, game),
+        score,
+        reason,
+      }))
+    );
+  },
+});
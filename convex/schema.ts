@@ -19,6 +19,7 @@ export default defineSchema({
     createdAt: v.optional(v.number()), // Account creation
     guildId: v.optional(v.id("guilds")), // Current guild
     isAnonymous: v.optional(v.boolean()), // Anonymous user flag (false for Clerk users)
+    role: v.optional(v.union(v.literal("user"), v.literal("admin"))), // Unset means "user"
   })
     .index("by_userId", ["userId"])
     .index("by_tokenIdentifier", ["tokenIdentifier"])
@@ -27,6 +28,37 @@ export default defineSchema({
     .index("by_exp", ["exp"])
     .index("by_guild", ["guildId"]),
 
+  // Opaque session tokens for guest (anonymous) users
+  // Only a SHA-256 hash of each token is stored
+  guest_sessions: defineTable({
+    userId: v.id("users"),        // Guest the session belongs to
+    tokenHash: v.string(),        // SHA-256 hash of the session token
+    createdAt: v.number(),        // Issue timestamp
+    expiresAt: v.number(),        // Expiry timestamp
+    revokedAt: v.optional(v.number()), // Set when rotated or logged out
+  })
+    .index("by_tokenHash", ["tokenHash"])
+    .index("by_user", ["userId"]),
+
+  // Ruffle player settings for signed-in users (guests keep theirs in localStorage)
+  // One row of defaults (no gameId) plus one row per game with overrides
+  user_settings: defineTable({
+    userId: v.id("users"),
+    gameId: v.optional(v.id("games")), // Set for per-game overrides
+    player: v.object({
+      quality: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"), v.literal("best"))),
+      volume: v.optional(v.number()),      // 0-1
+      letterbox: v.optional(v.union(v.literal("off"), v.literal("fullscreen"), v.literal("on"))),
+      scale: v.optional(v.union(v.literal("showAll"), v.literal("exactFit"), v.literal("noBorder"), v.literal("noScale"))),
+      forceScale: v.optional(v.boolean()),
+      frameRate: v.optional(v.union(v.number(), v.null())), // null keeps the SWF's frame rate
+      autoplay: v.optional(v.union(v.literal("auto"), v.literal("on"), v.literal("off"))),
+      unmuteOverlay: v.optional(v.union(v.literal("visible"), v.literal("hidden"))),
+    }),
+    updatedAt: v.number(),
+  })
+    .index("by_user_and_game", ["userId", "gameId"]),
+
   // ========== GAME SYSTEM ==========
   games: defineTable({
     title: v.string(),
@@ -38,14 +70,72 @@ export default defineSchema({
     category: v.string(),
     difficulty: v.union(v.literal("Easy"), v.literal("Medium"), v.literal("Hard")),
     playCount: v.number(),
+    scoreConfig: v.optional(v.object({
+      order: v.union(v.literal("higher"), v.literal("lower")), // Which scores rank first
+      maxScorePerMinute: v.optional(v.number()), // Plausibility cap for "higher" games
+    })),
+    isPublished: v.optional(v.boolean()), // Shown in the catalog (unset means published)
+    archivedAt: v.optional(v.number()),   // Set when an admin archives the game
+    swfStorageId: v.optional(v.id("_storage")),       // Uploaded SWF (served instead of swfUrl)
+    thumbnailStorageId: v.optional(v.id("_storage")), // Uploaded thumbnail (served instead of thumbnail)
+    swfVersion: v.optional(v.number()),   // From the uploaded SWF header
+    frameRate: v.optional(v.number()),    // Frames per second
+    stageWidth: v.optional(v.number()),   // Pixels
+    stageHeight: v.optional(v.number()),  // Pixels
+    usesAS3: v.optional(v.boolean()),     // ActionScript 3 (FileAttributes tag)
+    backgroundColor: v.optional(v.string()), // "#rrggbb" from the SWF
+    ratingAverage: v.optional(v.number()), // Mean player rating (1-5), for sorting
+    ratingCount: v.optional(v.number()),
   })
     .index("by_category", ["category"])
     .index("by_multiplayer", ["isMultiplayer"])
+    .index("by_category_and_multiplayer", ["category", "isMultiplayer"])
+    .index("by_play_count", ["playCount"])
+    .index("by_title", ["title"])
+    .index("by_rating", ["ratingAverage"])
+    .index("by_swf_storage", ["swfStorageId"])
+    .index("by_thumbnail_storage", ["thumbnailStorageId"])
     .searchIndex("search_games", {
       searchField: "title",
-      filterFields: ["category", "isMultiplayer"],
+      filterFields: ["category", "isMultiplayer", "difficulty"],
     }),
 
+  // One row per game tag, so tag filters read only the tagged games (see games.syncCatalogIndex)
+  game_tags: defineTable({
+    tag: v.string(),
+    gameId: v.id("games"),
+  })
+    .index("by_tag", ["tag"])
+    .index("by_game", ["gameId"]),
+
+  // Published game counts per category/difficulty/multiplayer combination (see games.syncCatalogIndex)
+  catalog_counts: defineTable({
+    category: v.string(),
+    difficulty: v.union(v.literal("Easy"), v.literal("Medium"), v.literal("Hard")),
+    isMultiplayer: v.boolean(),
+    count: v.number(),
+  })
+    .index("by_facets", ["category", "difficulty", "isMultiplayer"]),
+
+  // Validated SWF uploads (audit trail; games link to them by storage id)
+  swf_uploads: defineTable({
+    storageId: v.id("_storage"),
+    uploadedBy: v.id("users"),    // Admin who uploaded the file
+    fileName: v.string(),
+    fileSize: v.number(),         // Bytes as stored
+    compression: v.union(v.literal("none"), v.literal("zlib"), v.literal("lzma")),
+    swfVersion: v.number(),
+    declaredSize: v.number(),     // Uncompressed size from the header
+    frameRate: v.optional(v.number()),   // Unset when the body could not be decoded
+    stageWidth: v.optional(v.number()),
+    stageHeight: v.optional(v.number()),
+    usesAS3: v.optional(v.boolean()),
+    backgroundColor: v.optional(v.string()),
+    description: v.optional(v.string()), // From the SWF's Metadata tag
+    uploadedAt: v.number(),
+  })
+    .index("by_storage", ["storageId"]),
+
   game_sessions: defineTable({
     userId: v.id("users"),        // Player
     gameId: v.id("games"),        // Game being played
@@ -54,12 +144,121 @@ export default defineSchema({
     duration: v.number(),         // Minutes played
     expAwarded: v.number(),       // XP gained this session
     completed: v.boolean(),       // Session finished flag
+    lastHeartbeat: v.optional(v.number()), // Last heartbeat timestamp
+    activeMs: v.optional(v.number()), // Creditable time with input activity
+    gameCompleted: v.optional(v.boolean()), // Paid the completion bonus (once per game per player)
+    ruffleVersion: v.optional(v.string()), // Ruffle build the session played on
+    ruffleSource: v.optional(v.union(v.literal("self-hosted"), v.literal("mirror"))),
+    closedReason: v.optional(v.union(
+      v.literal("user"),          // Ended by the player
+      v.literal("replaced"),      // Closed when a new session started
+      v.literal("timeout"),       // Closed by the stale session reaper
+    )),
   })
     .index("by_user", ["userId"])
     .index("by_game", ["gameId"])
     .index("by_user_and_game", ["userId", "gameId"])
     .index("by_completed", ["completed"]),
 
+  game_scores: defineTable({
+    userId: v.id("users"),        // Player
+    gameId: v.id("games"),        // Game the score is for
+    sessionId: v.id("game_sessions"), // Session the score was earned in
+    score: v.number(),            // Submitted score
+    submittedAt: v.number(),      // Submission timestamp
+    flagged: v.boolean(),         // Implausible for the session, not ranked
+    flagReason: v.optional(v.string()), // Why the score was flagged
+  })
+    .index("by_game_and_submittedAt", ["gameId", "submittedAt"])
+    .index("by_user_and_game", ["userId", "gameId"])
+    .index("by_session", ["sessionId"]),
+
+  // Achievements reported by instrumented SWFs through the player bridge
+  game_achievement_unlocks: defineTable({
+    userId: v.id("users"),        // Player
+    gameId: v.id("games"),        // Game that reported the unlock
+    achievementKey: v.string(),   // Game-defined achievement identifier
+    unlockedAt: v.number(),       // Unlock timestamp
+  })
+    .index("by_user_and_game", ["userId", "gameId"])
+    .index("by_user_and_game_and_key", ["userId", "gameId", "achievementKey"]),
+
+  // Save data: reported by instrumented SWFs through the player bridge (no slot),
+  // or Ruffle SharedObjects synced from the browser into numbered slots
+  game_saves: defineTable({
+    userId: v.id("users"),        // Player
+    gameId: v.id("games"),        // Game the save belongs to
+    data: v.string(),             // Serialized save data (JSON of SharedObject entries for slots)
+    slot: v.optional(v.number()), // SharedObject save slot (1-based)
+    updatedAt: v.number(),        // Last write timestamp
+  })
+    .index("by_user_and_game", ["userId", "gameId"])
+    .index("by_user_and_game_and_slot", ["userId", "gameId", "slot"]),
+
+  // Star ratings and reviews (one per player per game)
+  game_reviews: defineTable({
+    userId: v.id("users"),        // Reviewer
+    gameId: v.id("games"),        // Reviewed game
+    rating: v.number(),           // 1-5 stars
+    text: v.optional(v.string()), // Optional review text
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_game", ["gameId"])
+    .index("by_user_and_game", ["userId", "gameId"]),
+
+  // Games a player has starred
+  favorites: defineTable({
+    userId: v.id("users"),        // Player
+    gameId: v.id("games"),        // Starred game
+    addedAt: v.number(),
+  })
+    .index("by_user_and_game", ["userId", "gameId"]),
+
+  // Named, ordered lists of games
+  playlists: defineTable({
+    ownerId: v.id("users"),       // Player who made the list
+    name: v.string(),
+    description: v.optional(v.string()),
+    gameIds: v.array(v.id("games")), // Games in play order
+    isPublic: v.boolean(),        // Anyone with the link can open it
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner", ["ownerId"]),
+
+  // Frames captured from the Ruffle canvas
+  screenshots: defineTable({
+    userId: v.id("users"),        // Player who took it
+    gameId: v.id("games"),
+    sessionId: v.optional(v.id("game_sessions")), // Session it was taken in
+    storageId: v.id("_storage"),  // PNG image
+    width: v.number(),
+    height: v.number(),
+    takenAt: v.number(),
+  })
+    .index("by_user_and_takenAt", ["userId", "takenAt"])
+    .index("by_game", ["gameId"])
+    .index("by_storage", ["storageId"]),
+
+  // Gameplay recordings from the Ruffle canvas (up to 60 seconds)
+  // The full recording is stored; playback is limited to the trimmed range
+  clips: defineTable({
+    userId: v.id("users"),        // Player who recorded it
+    gameId: v.id("games"),
+    sessionId: v.optional(v.id("game_sessions")), // Session it was recorded in
+    storageId: v.id("_storage"),  // WebM/MP4 video
+    title: v.optional(v.string()),
+    duration: v.number(),         // Recorded length in seconds
+    trimStart: v.number(),        // Playback range in seconds
+    trimEnd: v.number(),
+    hasAudio: v.boolean(),        // Whether game audio was captured
+    createdAt: v.number(),
+  })
+    .index("by_user_and_createdAt", ["userId", "createdAt"])
+    .index("by_game_and_createdAt", ["gameId", "createdAt"])
+    .index("by_storage", ["storageId"]),
+
   // ========== FRIENDS SYSTEM ==========
   friendships: defineTable({
     requesterId: v.id("users"),   // User who sent request
@@ -110,8 +309,84 @@ export default defineSchema({
     username: v.string(),         // Sender name (denormalized)
     avatarUrl: v.optional(v.string()), // Sender avatar (denormalized)
     content: v.string(),          // Message text
+    screenshotId: v.optional(v.id("screenshots")), // Shared screenshot
+    clipId: v.optional(v.id("clips")),             // Shared clip
     timestamp: v.number(),        // Send timestamp
   })
     .index("by_guild", ["guildId"])
-    .index("by_guild_and_timestamp", ["guildId", "timestamp"]),
+    .index("by_guild_and_timestamp", ["guildId", "timestamp"])
+    .index("by_user", ["userId"]),
+
+  // ========== ACHIEVEMENT SYSTEM ==========
+  // Definitions are seeded with achievements.seedAchievements
+  achievements: defineTable({
+    key: v.string(),              // Stable identifier (e.g. "level_10")
+    name: v.string(),             // Display name
+    description: v.string(),      // How to unlock
+    icon: v.string(),             // Emoji icon
+    expReward: v.number(),        // XP awarded on unlock
+    rule: v.object({
+      type: v.union(
+        v.literal("level"),          // Reach a level
+        v.literal("exp"),            // Earn total XP
+        v.literal("playtime"),       // Play total minutes
+        v.literal("distinctGames"),  // Play different games
+        v.literal("friends"),        // Have accepted friends
+        v.literal("guildJoined"),    // Be in a guild
+        v.literal("guildMessages"),  // Send guild chat messages
+      ),
+      threshold: v.number(),      // Value the stat must reach
+    }),
+  })
+    .index("by_key", ["key"]),
+
+  user_achievements: defineTable({
+    userId: v.id("users"),        // Player
+    achievementId: v.id("achievements"), // Unlocked achievement
+    unlockedAt: v.number(),       // Unlock timestamp
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_achievement", ["userId", "achievementId"]),
+
+  // ========== QUEST SYSTEM ==========
+  // Templates are seeded with quests.seedQuests; crons.ts rotates a few into each period
+  quest_templates: defineTable({
+    key: v.string(),              // Stable identifier (e.g. "daily_puzzle_15")
+    name: v.string(),             // Display name
+    description: v.string(),      // What to do
+    period: v.union(v.literal("daily"), v.literal("weekly")),
+    goal: v.object({
+      type: v.union(
+        v.literal("playMinutes"),          // Play any game for N minutes
+        v.literal("playCategoryMinutes"),  // Play a category for N minutes
+        v.literal("playDistinctGames"),    // Play N different games
+        v.literal("completeGames"),        // Complete N games
+        v.literal("playWithFriendOnline"), // Play N sessions while a friend is online
+      ),
+      category: v.optional(v.string()), // For playCategoryMinutes
+      target: v.number(),         // Progress needed to complete
+    }),
+    expReward: v.number(),        // XP awarded on claim
+  })
+    .index("by_key", ["key"])
+    .index("by_period", ["period"]),
+
+  // Quests rotated in for a specific day/week
+  active_quests: defineTable({
+    templateId: v.id("quest_templates"),
+    period: v.union(v.literal("daily"), v.literal("weekly")),
+    periodStart: v.number(),      // Start of the day/week (UTC)
+    expiresAt: v.number(),        // End of the day/week (UTC)
+  })
+    .index("by_period_and_start", ["period", "periodStart"]),
+
+  user_quests: defineTable({
+    userId: v.id("users"),        // Player
+    activeQuestId: v.id("active_quests"), // Quest being progressed
+    progress: v.number(),         // Progress towards the goal target
+    completedAt: v.optional(v.number()), // Set when progress reaches the target
+    claimedAt: v.optional(v.number()),   // Set when the reward is claimed
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_quest", ["userId", "activeQuestId"]),
 });
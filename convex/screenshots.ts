@@ -0,0 +1,139 @@
+/**
+ * Screenshots Module
+ * Frames players capture from the Ruffle canvas, kept in a personal gallery
+ * and shareable to guild chat
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireUser } from "./auth";
+import { isUploadClaimed } from "./uploads";
+
+const MAX_SCREENSHOTS_PER_USER = 100;
+const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024;
+
+// ========== QUERIES ==========
+
+/**
+ * Get the caller's screenshots, newest first, with image URLs and game titles
+ */
+export const getMyScreenshots = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const screenshots = await ctx.db
+      .query("screenshots")
+      .withIndex("by_user_and_takenAt", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(Math.min(args.limit ?? 50, MAX_SCREENSHOTS_PER_USER));
+
+    return await Promise.all(
+      screenshots.map(async ({ storageId, ...screenshot }) => {
+        const game = await ctx.db.get(screenshot.gameId);
+        return {
+          ...screenshot,
+          url: await ctx.storage.getUrl(storageId),
+          gameTitle: game?.title ?? "Unknown game",
+        };
+      })
+    );
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Get an upload URL for a screenshot image
+ */
+export const generateUploadUrl = mutation({
+  args: { sessionToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, args.sessionToken);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Add an uploaded screenshot to the caller's gallery
+ */
+export const saveScreenshot = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+    sessionId: v.optional(v.id("game_sessions")),
+    storageId: v.id("_storage"),
+    width: v.number(),
+    height: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) {
+      throw new Error("Screenshot upload not found");
+    }
+    if (!file.contentType?.startsWith("image/") || file.size > MAX_SCREENSHOT_BYTES) {
+      throw new Error("Screenshots must be images under 5 MB");
+    }
+    if (await isUploadClaimed(ctx, args.storageId)) {
+      throw new Error("This upload is already in use");
+    }
+
+    const game = await ctx.db.get(args.gameId);
+    if (!game) {
+      throw new Error("Game not found");
+    }
+
+    const existing = await ctx.db
+      .query("screenshots")
+      .withIndex("by_user_and_takenAt", (q) => q.eq("userId", user._id))
+      .take(MAX_SCREENSHOTS_PER_USER);
+
+    if (existing.length >= MAX_SCREENSHOTS_PER_USER) {
+      throw new Error(`Gallery is full (max ${MAX_SCREENSHOTS_PER_USER} screenshots). Delete some to make room.`);
+    }
+
+    // Only link sessions the caller actually played
+    const session = args.sessionId ? await ctx.db.get(args.sessionId) : null;
+
+    const screenshotId = await ctx.db.insert("screenshots", {
+      userId: user._id,
+      gameId: args.gameId,
+      sessionId: session?.userId === user._id ? session._id : undefined,
+      storageId: args.storageId,
+      width: args.width,
+      height: args.height,
+      takenAt: Date.now(),
+    });
+
+    return { screenshotId };
+  },
+});
+
+/**
+ * Delete one of the caller's screenshots
+ * Guild messages that shared it show it as removed.
+ */
+export const deleteScreenshot = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    screenshotId: v.id("screenshots"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const screenshot = await ctx.db.get(args.screenshotId);
+    if (!screenshot || screenshot.userId !== user._id) {
+      throw new Error("Screenshot not found");
+    }
+
+    await ctx.storage.delete(screenshot.storageId);
+    await ctx.db.delete(screenshot._id);
+
+    return { success: true };
+  },
+});
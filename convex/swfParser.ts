@@ -0,0 +1,297 @@
+/**
+ * SWF Parser
+ * Pure helpers for reading SWF headers and the metadata tags before the first frame.
+ * zlib inflation is passed in by the caller (see swfUpload.ts) so this module
+ * runs in any Convex runtime; LZMA bodies are decoded by lzma.ts.
+ *
+ * Layout: signature (FWS/CWS/ZWS), version (u8), uncompressed file length (u32 LE),
+ * then the (possibly compressed) body: stage RECT, frame rate (u16 8.8), frame count (u16),
+ * then the tag stream.
+ */
+
+import { decodeLzma } from "./lzma";
+
+export type SwfCompression = "none" | "zlib" | "lzma";
+
+export interface SwfHeader {
+  compression: SwfCompression;
+  version: number;
+  declaredSize: number; // Uncompressed file length, including the 8-byte header
+  bodyOffset: number;   // Where the compressed (or raw) body starts (after ZWS's compressed length)
+}
+
+export interface SwfMovieHeader {
+  stageWidth: number;   // Pixels
+  stageHeight: number;  // Pixels
+  frameRate: number;    // Frames per second
+  frameCount: number;
+}
+
+export interface SwfMetadata extends SwfMovieHeader {
+  compression: SwfCompression;
+  swfVersion: number;
+  declaredSize: number;
+  usesAS3: boolean;          // FileAttributes ActionScript3 flag
+  backgroundColor?: string;  // "#rrggbb" from SetBackgroundColor
+  title?: string;            // dc:title from the Metadata tag
+  description?: string;      // dc:description from the Metadata tag
+}
+
+/**
+ * Inflates a zlib stream to exactly `size` bytes (throws on failure)
+ */
+export type ZlibInflate = (data: Uint8Array, size: number) => Uint8Array;
+
+const SIGNATURES: Record<string, SwfCompression> = {
+  FWS: "none",
+  CWS: "zlib",
+  ZWS: "lzma",
+};
+
+// Version 1 is the oldest SWF; Flash Player 32 wrote version 43
+const MAX_SWF_VERSION = 50;
+
+// Reject absurd declared sizes before trying to decompress
+export const MAX_SWF_DECLARED_SIZE = 200 * 1024 * 1024;
+
+const TWIPS_PER_PIXEL = 20;
+
+// Tag codes read before the first frame
+const TAG_END = 0;
+const TAG_SHOW_FRAME = 1;
+const TAG_SET_BACKGROUND_COLOR = 9;
+const TAG_FILE_ATTRIBUTES = 69;
+const TAG_METADATA = 77;
+
+const FILE_ATTRIBUTES_AS3 = 0x08;
+
+// Metadata text is shown in the catalog, so keep it short
+const MAX_METADATA_TEXT_LENGTH = 1000;
+
+/**
+ * Reads bit fields MSB-first, as used by SWF RECT records
+ */
+class BitReader {
+  private bytePos = 0;
+  private bitPos = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  readUnsigned(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      if (this.bytePos >= this.bytes.length) {
+        throw new Error("Unexpected end of SWF data");
+      }
+      const bit = (this.bytes[this.bytePos] >> (7 - this.bitPos)) & 1;
+      value = value * 2 + bit;
+      this.bitPos++;
+      if (this.bitPos === 8) {
+        this.bitPos = 0;
+        this.bytePos++;
+      }
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    if (bits === 0) return 0;
+    const value = this.readUnsigned(bits);
+    const signBit = Math.pow(2, bits - 1);
+    return value >= signBit ? value - signBit * 2 : value;
+  }
+
+  /**
+   * Byte offset after the current bit field (fields are padded to whole bytes)
+   */
+  get alignedOffset(): number {
+    return this.bitPos === 0 ? this.bytePos : this.bytePos + 1;
+  }
+}
+
+/**
+ * Parse and validate the 8-byte SWF header
+ */
+export function parseSwfHeader(bytes: Uint8Array): SwfHeader {
+  if (bytes.length < 8) {
+    throw new Error("File is too small to be a SWF");
+  }
+
+  const signature = String.fromCharCode(bytes[0], bytes[1], bytes[2]);
+  const compression = SIGNATURES[signature];
+  if (!compression) {
+    throw new Error("Not a SWF file (expected FWS, CWS or ZWS signature)");
+  }
+
+  const version = bytes[3];
+  if (version < 1 || version > MAX_SWF_VERSION) {
+    throw new Error(`Unsupported SWF version ${version}`);
+  }
+
+  const declaredSize =
+    bytes[4] | (bytes[5] << 8) | (bytes[6] << 16) | (bytes[7] * 0x1000000);
+
+  if (declaredSize < 8 + 5 || declaredSize > MAX_SWF_DECLARED_SIZE) {
+    throw new Error(`Invalid declared SWF size ${declaredSize}`);
+  }
+
+  // Uncompressed files must be exactly as long as they claim
+  if (compression === "none" && declaredSize !== bytes.length) {
+    throw new Error(
+      `Declared SWF size ${declaredSize} does not match file size ${bytes.length}`
+    );
+  }
+
+  // ZWS adds the compressed length (u32) and 5 bytes of LZMA properties before the data
+  if (compression === "lzma") {
+    if (bytes.length < 17) {
+      throw new Error("Truncated LZMA SWF header");
+    }
+    const compressedSize =
+      bytes[8] | (bytes[9] << 8) | (bytes[10] << 16) | (bytes[11] * 0x1000000);
+    if (compressedSize + 17 > bytes.length) {
+      throw new Error("LZMA SWF is shorter than its declared compressed size");
+    }
+    return { compression, version, declaredSize, bodyOffset: 12 };
+  }
+
+  return { compression, version, declaredSize, bodyOffset: 8 };
+}
+
+/**
+ * Parse the movie header at the start of the uncompressed body (after the 8-byte header)
+ * Returns the header and the offset where the tag stream starts.
+ */
+export function parseSwfMovieHeader(body: Uint8Array): SwfMovieHeader & { tagsOffset: number } {
+  const reader = new BitReader(body);
+
+  const nBits = reader.readUnsigned(5);
+  const xMin = reader.readSigned(nBits);
+  const xMax = reader.readSigned(nBits);
+  const yMin = reader.readSigned(nBits);
+  const yMax = reader.readSigned(nBits);
+
+  let offset = reader.alignedOffset;
+  if (offset + 4 > body.length) {
+    throw new Error("Unexpected end of SWF data");
+  }
+
+  // Frame rate is 8.8 fixed point, stored little-endian
+  const frameRate = body[offset + 1] + body[offset] / 256;
+  const frameCount = body[offset + 2] | (body[offset + 3] << 8);
+  offset += 4;
+
+  const stageWidth = Math.round((xMax - xMin) / TWIPS_PER_PIXEL);
+  const stageHeight = Math.round((yMax - yMin) / TWIPS_PER_PIXEL);
+
+  if (stageWidth <= 0 || stageHeight <= 0) {
+    throw new Error("SWF has an empty stage");
+  }
+
+  return { stageWidth, stageHeight, frameRate, frameCount, tagsOffset: offset };
+}
+
+/**
+ * Read the text of a Dublin Core element from the Metadata tag's RDF/XML
+ */
+function readMetadataElement(xml: string, element: string): string | undefined {
+  const match = new RegExp(`<dc:${element}[^>]*>([\\s\\S]*?)</dc:${element}>`).exec(xml);
+  if (!match) return undefined;
+
+  // Some tools wrap the text in rdf:Alt/rdf:li
+  const text = match[1]
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return text ? text.slice(0, MAX_METADATA_TEXT_LENGTH) : undefined;
+}
+
+/**
+ * Read FileAttributes, SetBackgroundColor and Metadata from the tags before the first frame
+ */
+export function parseSwfTags(body: Uint8Array, offset: number) {
+  const result: Pick<SwfMetadata, "usesAS3" | "backgroundColor" | "title" | "description"> = {
+    usesAS3: false,
+  };
+
+  while (offset + 2 <= body.length) {
+    const codeAndLength = body[offset] | (body[offset + 1] << 8);
+    const code = codeAndLength >> 6;
+    let length = codeAndLength & 0x3f;
+    offset += 2;
+
+    // Long tag header: the real length follows as a u32
+    if (length === 0x3f) {
+      if (offset + 4 > body.length) break;
+      length = body[offset] | (body[offset + 1] << 8) | (body[offset + 2] << 16) | (body[offset + 3] * 0x1000000);
+      offset += 4;
+    }
+
+    if (code === TAG_END || code === TAG_SHOW_FRAME) break;
+    if (offset + length > body.length) {
+      throw new Error("SWF tag runs past the end of the file");
+    }
+
+    const data = body.subarray(offset, offset + length);
+
+    if (code === TAG_FILE_ATTRIBUTES && data.length >= 1) {
+      result.usesAS3 = (data[0] & FILE_ATTRIBUTES_AS3) !== 0;
+    } else if (code === TAG_SET_BACKGROUND_COLOR && data.length >= 3) {
+      result.backgroundColor =
+        "#" + Array.from(data.subarray(0, 3), (b) => b.toString(16).padStart(2, "0")).join("");
+    } else if (code === TAG_METADATA) {
+      const end = data.indexOf(0);
+      const xml = new TextDecoder().decode(end === -1 ? data : data.subarray(0, end));
+      result.title = readMetadataElement(xml, "title");
+      result.description = readMetadataElement(xml, "description");
+    }
+
+    offset += length;
+  }
+
+  return result;
+}
+
+/**
+ * Validate a whole SWF file and extract its metadata
+ */
+export function parseSwf(bytes: Uint8Array, inflateZlib: ZlibInflate): SwfMetadata {
+  const header = parseSwfHeader(bytes);
+  const bodySize = header.declaredSize - 8;
+
+  let body: Uint8Array;
+  if (header.compression === "none") {
+    body = bytes.subarray(header.bodyOffset);
+  } else if (header.compression === "zlib") {
+    body = inflateZlib(bytes.subarray(header.bodyOffset), bodySize);
+  } else {
+    // The body starts with 5 bytes of LZMA properties
+    body = decodeLzma(
+      bytes.subarray(header.bodyOffset, header.bodyOffset + 5),
+      bytes.subarray(header.bodyOffset + 5),
+      bodySize
+    );
+  }
+
+  if (body.length !== bodySize) {
+    throw new Error(
+      `Declared SWF size ${header.declaredSize} does not match decompressed size ${body.length + 8}`
+    );
+  }
+
+  const { tagsOffset, ...movie } = parseSwfMovieHeader(body);
+
+  return {
+    compression: header.compression,
+    swfVersion: header.version,
+    declaredSize: header.declaredSize,
+    ...movie,
+    ...parseSwfTags(body, tagsOffset),
+  };
+}
@@ -0,0 +1,149 @@
+"use node";
+
+/**
+ * SWF Upload Validation & Metadata Extraction
+ * Checks uploaded SWFs before they can be linked to a game and reads their
+ * metadata (stage size, frame rate, AS3 flag, background colour, description).
+ * Invalid uploads are deleted from storage, unless they already belong to something.
+ */
+
+import { inflateSync } from "zlib";
+import { v } from "convex/values";
+import { action } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { MAX_SWF_DECLARED_SIZE, parseSwf, SwfMetadata } from "./swfParser";
+
+// Largest SWF file read into memory for validation
+const MAX_SWF_FILE_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Inflate a CWS body, refusing to grow past its declared size
+ */
+function inflateZlib(data: Uint8Array, size: number): Uint8Array {
+  try {
+    return inflateSync(data, { maxOutputLength: size });
+  } catch {
+    throw new Error("SWF body could not be decompressed");
+  }
+}
+
+/**
+ * Pick the fields stored on swf_uploads and games
+ */
+function toMetadataFields(metadata: SwfMetadata) {
+  return {
+    swfVersion: metadata.swfVersion,
+    frameRate: metadata.frameRate,
+    stageWidth: metadata.stageWidth,
+    stageHeight: metadata.stageHeight,
+    usesAS3: metadata.usesAS3,
+    backgroundColor: metadata.backgroundColor,
+    description: metadata.description,
+  };
+}
+
+/**
+ * Validate an uploaded SWF and record it so createGame/updateGame can link it
+ */
+export const validateSwfUpload = action({
+  args: {
+    sessionToken: v.optional(v.string()),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+  },
+  handler: async (ctx, args): Promise<SwfMetadata> => {
+    await ctx.runQuery(internal.games.assertAdmin, { sessionToken: args.sessionToken });
+
+    // Files that already belong to a game, screenshot or clip must never be deleted here
+    const upload = await ctx.runQuery(internal.uploads.getUploadInfo, { storageId: args.storageId });
+    if (!upload) {
+      throw new Error("Uploaded file not found");
+    }
+    if (upload.claimed) {
+      throw new Error("This upload is already in use");
+    }
+
+    // Check the size before reading the whole file into memory
+    if (upload.size > MAX_SWF_FILE_SIZE) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error("SWF is too large (max 100 MB)");
+    }
+
+    const blob = await ctx.storage.get(args.storageId);
+    if (!blob) {
+      throw new Error("Uploaded file not found");
+    }
+
+    try {
+      const metadata = parseSwf(new Uint8Array(await blob.arrayBuffer()), inflateZlib);
+
+      await ctx.runMutation(internal.games.recordSwfUpload, {
+        sessionToken: args.sessionToken,
+        storageId: args.storageId,
+        fileName: args.fileName,
+        fileSize: blob.size,
+        compression: metadata.compression,
+        declaredSize: metadata.declaredSize,
+        ...toMetadataFields(metadata),
+      });
+
+      return metadata;
+    } catch (error) {
+      // Don't keep files that can never be linked to a game
+      await ctx.storage.delete(args.storageId);
+      throw error;
+    }
+  },
+});
+
+/**
+ * Read the SWF of an existing game (uploaded or at its swfUrl) and fill in its metadata
+ * Relative swfUrls are served by the frontend, so they can't be fetched from here.
+ */
+export const extractGameSwfMetadata = action({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args): Promise<SwfMetadata> => {
+    const source = await ctx.runQuery(internal.games.getGameSwfSource, {
+      sessionToken: args.sessionToken,
+      gameId: args.gameId,
+    });
+
+    let bytes: Uint8Array;
+    if (source.swfStorageId) {
+      const blob = await ctx.storage.get(source.swfStorageId);
+      if (!blob) {
+        throw new Error("Uploaded SWF not found");
+      }
+      bytes = new Uint8Array(await blob.arrayBuffer());
+    } else {
+      if (!/^https?:\/\//.test(source.swfUrl)) {
+        throw new Error("Only absolute SWF URLs can be scanned; upload the file instead");
+      }
+
+      const response = await fetch(source.swfUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to download SWF (${response.status})`);
+      }
+
+      const contentLength = Number(response.headers.get("content-length") ?? 0);
+      if (contentLength > MAX_SWF_DECLARED_SIZE) {
+        throw new Error("SWF is too large");
+      }
+
+      bytes = new Uint8Array(await response.arrayBuffer());
+    }
+
+    const metadata = parseSwf(bytes, inflateZlib);
+
+    await ctx.runMutation(internal.games.applySwfMetadata, {
+      sessionToken: args.sessionToken,
+      gameId: args.gameId,
+      ...toMetadataFields(metadata),
+    });
+
+    return metadata;
+  },
+});
@@ -0,0 +1,94 @@
+/**
+ * Uploads Module
+ * Tracks which stored files belong to a row and removes uploads that never got one
+ * (a save that failed validation, or a browser closed between upload and save)
+ */
+
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { internalMutation, internalQuery, QueryCtx } from "./_generated/server";
+
+// Unclaimed uploads younger than this may still be waiting for their save mutation
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+// Each run re-checks a little more than one cron interval so a missed run is covered
+const ORPHAN_SCAN_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Whether a stored file already belongs to a screenshot, clip, game or validated SWF
+ * Save mutations reject claimed files so a player can't take over (and later
+ * delete) someone else's file by passing its storage id.
+ */
+export async function isUploadClaimed(ctx: QueryCtx, storageId: Id<"_storage">): Promise<boolean> {
+  const screenshot = await ctx.db
+    .query("screenshots")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first();
+  if (screenshot) return true;
+
+  const clip = await ctx.db
+    .query("clips")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first();
+  if (clip) return true;
+
+  const swfGame = await ctx.db
+    .query("games")
+    .withIndex("by_swf_storage", (q) => q.eq("swfStorageId", storageId))
+    .first();
+  if (swfGame) return true;
+
+  const thumbnailGame = await ctx.db
+    .query("games")
+    .withIndex("by_thumbnail_storage", (q) => q.eq("thumbnailStorageId", storageId))
+    .first();
+  if (thumbnailGame) return true;
+
+  const swfUpload = await ctx.db
+    .query("swf_uploads")
+    .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+    .first();
+  return swfUpload !== null;
+}
+
+// ========== INTERNAL ==========
+
+// Size and claim status of a stored file (actions can't read _storage or other rows)
+export const getUploadInfo = internalQuery({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) return null;
+
+    return { size: file.size, claimed: await isUploadClaimed(ctx, args.storageId) };
+  },
+});
+
+// ========== SCHEDULED JOBS ==========
+
+/**
+ * Delete uploads that no row claimed within the grace period
+ * Failed saves can't delete their upload (the rollback undoes it). Run by crons.ts.
+ */
+export const deleteOrphanedUploads = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - ORPHAN_GRACE_MS;
+
+    const files = await ctx.db.system
+      .query("_storage")
+      .withIndex("by_creation_time", (q) =>
+        q.gte("_creationTime", cutoff - ORPHAN_SCAN_WINDOW_MS).lt("_creationTime", cutoff)
+      )
+      .collect();
+
+    let deletedCount = 0;
+    for (const file of files) {
+      if (await isUploadClaimed(ctx, file._id)) continue;
+
+      await ctx.storage.delete(file._id);
+      deletedCount++;
+    }
+
+    return { deletedCount };
+  },
+});
@@ -0,0 +1,133 @@
+/**
+ * User Settings Module
+ * Ruffle player settings for signed-in users: account-wide defaults and per-game
+ * overrides. Guests keep their settings in localStorage instead.
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthenticatedUser, requireUser } from "./auth";
+
+// Same shape as user_settings.player in the schema
+const playerSettingsValidator = v.object({
+  quality: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"), v.literal("best"))),
+  volume: v.optional(v.number()),
+  letterbox: v.optional(v.union(v.literal("off"), v.literal("fullscreen"), v.literal("on"))),
+  scale: v.optional(v.union(v.literal("showAll"), v.literal("exactFit"), v.literal("noBorder"), v.literal("noScale"))),
+  forceScale: v.optional(v.boolean()),
+  frameRate: v.optional(v.union(v.number(), v.null())),
+  autoplay: v.optional(v.union(v.literal("auto"), v.literal("on"), v.literal("off"))),
+  unmuteOverlay: v.optional(v.union(v.literal("visible"), v.literal("hidden"))),
+});
+
+// ========== QUERIES ==========
+
+/**
+ * Get the caller's player defaults and overrides for a game
+ * Returns null for guests and signed-out callers.
+ */
+export const getPlayerSettings = query({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.optional(v.id("games")),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
+    if (!user || user.isAnonymous) return null;
+
+    const defaults = await ctx.db
+      .query("user_settings")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", undefined))
+      .first();
+
+    const override = args.gameId
+      ? await ctx.db
+          .query("user_settings")
+          .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+          .first()
+      : null;
+
+    return {
+      defaults: defaults?.player ?? null,
+      override: override?.player ?? null,
+    };
+  },
+});
+
+// ========== MUTATIONS ==========
+
+/**
+ * Save player settings as the caller's defaults, or as overrides for one game
+ * Fields are merged into what's already saved.
+ */
+export const savePlayerSettings = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.optional(v.id("games")),
+    player: playerSettingsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+    if (user.isAnonymous) {
+      throw new Error("Sign in to save player settings to your account");
+    }
+
+    // Written as in-range checks so NaN fails them
+    const { volume, frameRate } = args.player;
+    if (volume !== undefined && !(volume >= 0 && volume <= 1)) {
+      throw new Error("Volume must be between 0 and 1");
+    }
+    if (frameRate !== undefined && frameRate !== null && !(frameRate >= 1 && frameRate <= 120)) {
+      throw new Error("Frame rate must be between 1 and 120");
+    }
+
+    if (args.gameId && !(await ctx.db.get(args.gameId))) {
+      throw new Error("Game not found");
+    }
+
+    const existing = await ctx.db
+      .query("user_settings")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        player: { ...existing.player, ...args.player },
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.insert("user_settings", {
+        userId: user._id,
+        gameId: args.gameId,
+        player: args.player,
+        updatedAt: Date.now(),
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove the caller's overrides for a game (it goes back to their defaults)
+ */
+export const clearGameSettings = mutation({
+  args: {
+    sessionToken: v.optional(v.string()),
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.sessionToken);
+
+    const existing = await ctx.db
+      .query("user_settings")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id).eq("gameId", args.gameId))
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+
+    return { success: true };
+  },
+});
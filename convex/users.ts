@@ -5,7 +5,18 @@
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { mergeGuestIntoUser } from "./accountMerge";
+import { refreshGameRating } from "./gameReviews";
+import {
+  assertActingAs,
+  createGuestSession,
+  deleteGuestSessions,
+  getAuthenticatedUser,
+  getGuestFromSession,
+  requireUser,
+  revokeGuestSession,
+} from "./auth";
 import {
   calculateLevelFromExp,
   generateDefaultAvatar,
@@ -17,15 +28,13 @@ import {
 // ========== QUERIES ==========
 
 /**
- * Get current user profile by userId
+ * Get the calling user's profile
+ * Guests pass their session token; Clerk users are resolved from auth.
  */
 export const getProfile = query({
-  args: { userId: v.string() },
+  args: { sessionToken: v.optional(v.string()) },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
+    const user = await getAuthenticatedUser(ctx, args.sessionToken);
 
     if (!user) return null;
 
@@ -161,31 +170,53 @@ export const searchUsers = query({
   },
 });
 
+/**
+ * Get the guest progress a signed-in Clerk user could claim
+ * Returns null if the token is dead or the caller is not a Clerk user.
+ */
+export const getGuestClaim = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+
+    const guest = await getGuestFromSession(ctx, args.sessionToken);
+    if (!guest) return null;
+
+    return {
+      username: guest.username ?? "",
+      exp: guest.exp ?? 0,
+      level: calculateLevelFromExp(guest.exp ?? 0).level,
+      totalPlaytime: guest.totalPlaytime ?? 0,
+    };
+  },
+});
+
 // ========== MUTATIONS ==========
 
 /**
  * Create or get existing user profile (anonymous login)
+ * An existing guest is only resumed from a live session token, which is rotated.
+ * Returns the guest session token to pass to later queries and mutations.
  */
 export const createOrGetProfile = mutation({
   args: {
-    userId: v.optional(v.string()),
+    sessionToken: v.optional(v.string()),
     username: v.string(),
   },
   handler: async (ctx, args) => {
-    // Check if user already exists
-    if (args.userId) {
-      const userId = args.userId; // Narrow the type
-      const existing = await ctx.db
-        .query("users")
-        .withIndex("by_userId", (q) => q.eq("userId", userId))
-        .first();
+    // Resume the guest that owns this session
+    if (args.sessionToken) {
+      const existingId = await revokeGuestSession(ctx, args.sessionToken);
+      const existing = existingId ? await ctx.db.get(existingId) : null;
 
       if (existing) {
         // Update last seen
         await ctx.db.patch(existing._id, {
           lastSeen: Date.now(),
         });
-        return { userId: existing.userId, _id: existing._id, isNew: false };
+        const sessionToken = await createGuestSession(ctx, existing._id);
+        return { userId: existing.userId, _id: existing._id, isNew: false, sessionToken };
       }
     }
 
@@ -205,7 +236,7 @@ export const createOrGetProfile = mutation({
     }
 
     // Create new user
-    const userId = args.userId || generateUserId();
+    const userId = generateUserId();
     const now = Date.now();
 
     const newUserId = await ctx.db.insert("users", {
@@ -220,13 +251,43 @@ export const createOrGetProfile = mutation({
       isAnonymous: true,
     });
 
-    return { userId, _id: newUserId, isNew: true };
+    const sessionToken = await createGuestSession(ctx, newUserId);
+    return { userId, _id: newUserId, isNew: true, sessionToken };
+  },
+});
+
+/**
+ * Exchange a live guest session token for a fresh one
+ * The old token stops working immediately.
+ */
+export const rotateSession = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await revokeGuestSession(ctx, args.sessionToken);
+    if (!userId) {
+      throw new Error("Session expired");
+    }
+
+    const sessionToken = await createGuestSession(ctx, userId);
+    return { sessionToken };
+  },
+});
+
+/**
+ * Revoke a guest session token (guest logout)
+ */
+export const revokeSession = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    await revokeGuestSession(ctx, args.sessionToken);
+    return { success: true };
   },
 });
 
 /**
  * Sync Clerk user with Convex database
  * Called automatically when a user signs in with Clerk
+ * The Clerk user ID must match the caller's verified identity.
  */
 export const syncClerkUser = mutation({
   args: {
@@ -237,10 +298,20 @@ export const syncClerkUser = mutation({
     avatarUrl: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    // Check if user already exists by tokenIdentifier
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    if (identity.subject !== args.clerkUserId) {
+      throw new Error("Cannot sync another user's account");
+    }
+
+    // Check if user already exists by verified Clerk user ID
     const existing = await ctx.db
       .query("users")
-      .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", args.tokenIdentifier))
+      .withIndex("by_userId", (q) => q.eq("userId", identity.subject))
+      .filter((q) => q.neq(q.field("isAnonymous"), true))
       .first();
 
     const now = Date.now();
@@ -296,6 +367,40 @@ export const syncClerkUser = mutation({
   },
 });
 
+/**
+ * Claim a guest's progress into the signed-in Clerk account
+ * Sums XP and playtime, moves sessions, friendships, guild membership and
+ * guild messages over, then deletes the guest.
+ */
+export const claimGuestProgress = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Sign in to claim guest progress");
+    }
+
+    const target = await requireUser(ctx);
+
+    const guest = await getGuestFromSession(ctx, args.sessionToken);
+    if (!guest) {
+      throw new Error("Guest session expired");
+    }
+
+    if (guest._id === target._id) {
+      throw new Error("Cannot merge an account into itself");
+    }
+
+    const result = await mergeGuestIntoUser(ctx, guest, target);
+
+    return {
+      success: true,
+      ...result,
+      levelInfo: calculateLevelFromExp(result.exp),
+    };
+  },
+});
+
 /**
  * Get current user by Clerk token identifier
  */
@@ -324,19 +429,15 @@ export const getCurrentUser = query({
  */
 export const updateProfile = mutation({
   args: {
-    userId: v.string(),
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.string()),
     username: v.optional(v.string()),
     avatarUrl: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
 
     const updates: any = {
       lastSeen: Date.now(),
@@ -375,94 +476,18 @@ export const updateProfile = mutation({
   },
 });
 
-/**
- * Add XP to user and handle level-ups
- */
-export const addExp = mutation({
-  args: {
-    userId: v.id("users"),
-    expAmount: v.number(),
-  },
-  handler: async (ctx, args) => {
-    const user = await ctx.db.get(args.userId);
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    const newExp = (user.exp ?? 0) + args.expAmount;
-    const oldLevelInfo = calculateLevelFromExp(user.exp ?? 0);
-    const newLevelInfo = calculateLevelFromExp(newExp);
-
-    const leveledUp = newLevelInfo.level > oldLevelInfo.level;
-
-    // Update user
-    await ctx.db.patch(args.userId, {
-      exp: newExp,
-      level: newLevelInfo.level,
-      lastSeen: Date.now(),
-    });
-
-    // Update guild total XP if user is in a guild
-    if (user.guildId) {
-      const guild = await ctx.db.get(user.guildId);
-      if (guild) {
-        const newGuildExp = guild.totalExp + args.expAmount;
-        const guildLevel = calculateLevelFromExp(newGuildExp).level;
-
-        await ctx.db.patch(user.guildId, {
-          totalExp: newGuildExp,
-          level: guildLevel,
-        });
-      }
-    }
-
-    return {
-      success: true,
-      leveledUp,
-      oldLevel: oldLevelInfo.level,
-      newLevel: newLevelInfo.level,
-      totalExp: newExp,
-    };
-  },
-});
-
-/**
- * Update playtime
- */
-export const updatePlaytime = mutation({
-  args: {
-    userId: v.id("users"),
-    minutesPlayed: v.number(),
-  },
-  handler: async (ctx, args) => {
-    const user = await ctx.db.get(args.userId);
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    await ctx.db.patch(args.userId, {
-      totalPlaytime: (user.totalPlaytime ?? 0) + args.minutesPlayed,
-      lastSeen: Date.now(),
-    });
-
-    return { success: true };
-  },
-});
-
 /**
  * Update last seen timestamp (for online status)
  */
 export const updateLastSeen = mutation({
-  args: { userId: v.string() },
+  args: {
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
 
     await ctx.db.patch(user._id, {
       lastSeen: Date.now(),
@@ -476,16 +501,14 @@ export const updateLastSeen = mutation({
  * Delete user account
  */
 export const deleteAccount = mutation({
-  args: { userId: v.string() },
+  args: {
+    sessionToken: v.optional(v.string()),
+    /** @deprecated The caller is resolved from auth; kept for older clients */
+    userId: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .first();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const user = await requireUser(ctx, args.sessionToken);
+    assertActingAs(user, args.userId);
 
     // Remove from guild if in one
     if (user.guildId) {
@@ -524,9 +547,127 @@ export const deleteAccount = mutation({
       await ctx.db.delete(friendship._id);
     }
 
+    // Delete submitted scores so they drop off leaderboards
+    const scores = await ctx.db
+      .query("game_scores")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const score of scores) {
+      await ctx.db.delete(score._id);
+    }
+
+    // Delete bridge-reported achievements and saves
+    const unlocks = await ctx.db
+      .query("game_achievement_unlocks")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const saves = await ctx.db
+      .query("game_saves")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const doc of [...unlocks, ...saves]) {
+      await ctx.db.delete(doc._id);
+    }
+
+    // Delete reviews and update the games' ratings
+    const reviews = await ctx.db
+      .query("game_reviews")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const review of reviews) {
+      await ctx.db.delete(review._id);
+      await refreshGameRating(ctx, review.gameId);
+    }
+
+    // Delete screenshots and clips along with their files
+    const screenshots = await ctx.db
+      .query("screenshots")
+      .withIndex("by_user_and_takenAt", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const clips = await ctx.db
+      .query("clips")
+      .withIndex("by_user_and_createdAt", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const doc of [...screenshots, ...clips]) {
+      await ctx.storage.delete(doc.storageId);
+      await ctx.db.delete(doc._id);
+    }
+
+    // Delete favorites, playlists and player settings
+    const favorites = await ctx.db
+      .query("favorites")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const playlists = await ctx.db
+      .query("playlists")
+      .withIndex("by_owner", (q) => q.eq("ownerId", user._id))
+      .collect();
+
+    const settings = await ctx.db
+      .query("user_settings")
+      .withIndex("by_user_and_game", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const doc of [...favorites, ...playlists, ...settings]) {
+      await ctx.db.delete(doc._id);
+    }
+
+    // Delete unlocked achievements and quest progress
+    const achievements = await ctx.db
+      .query("user_achievements")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const quests = await ctx.db
+      .query("user_quests")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const doc of [...achievements, ...quests]) {
+      await ctx.db.delete(doc._id);
+    }
+
+    // Delete guest sessions
+    await deleteGuestSessions(ctx, user._id);
+
     // Delete user
     await ctx.db.delete(user._id);
 
     return { success: true };
   },
 });
+
+// ========== ADMIN ==========
+
+/**
+ * Grant or revoke the admin role
+ * Internal only: run from the Convex dashboard or `npx convex run users:setUserRole`.
+ */
+export const setUserRole = internalMutation({
+  args: {
+    username: v.string(),
+    role: v.union(v.literal("user"), v.literal("admin")),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_username", (q) => q.eq("username", args.username))
+      .filter((q) => q.neq(q.field("isAnonymous"), true))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch(user._id, { role: args.role });
+
+    return { success: true, userId: user._id, role: args.role };
+  },
+});
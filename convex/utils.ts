@@ -65,6 +65,53 @@ export function calculateExpFromPlaytime(minutes: number): number {
   return Math.floor(minutes * 10);
 }
 
+// Heartbeats are sent every 30 seconds; a window can earn at most twice that
+export const MAX_HEARTBEAT_CREDIT_MS = 60 * 1000;
+
+// Sessions need this much credited active time for the completion bonus and quests
+export const MIN_QUALIFYING_ACTIVE_MS = 2 * 60 * 1000;
+
+/**
+ * Calculate creditable active time for one heartbeat window
+ * Windows without input earn nothing; long gaps (suspended tabs) are capped.
+ */
+export function getActiveWindowMs(windowMs: number, inputEvents: number): number {
+  if (windowMs <= 0 || !Number.isFinite(inputEvents) || inputEvents <= 0) return 0;
+  return Math.min(windowMs, MAX_HEARTBEAT_CREDIT_MS);
+}
+
+/**
+ * Get the start timestamp of a leaderboard period (UTC)
+ * Weeks start on Monday.
+ */
+export function getPeriodStart(
+  period: "daily" | "weekly" | "allTime",
+  now: number = Date.now()
+): number {
+  if (period === "allTime") return 0;
+
+  const date = new Date(now);
+  date.setUTCHours(0, 0, 0, 0);
+
+  if (period === "weekly") {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  }
+
+  return date.getTime();
+}
+
+/**
+ * Get the end timestamp (exclusive) of the day or week containing now (UTC)
+ */
+export function getPeriodEnd(
+  period: "daily" | "weekly",
+  now: number = Date.now()
+): number {
+  const days = period === "weekly" ? 7 : 1;
+  return getPeriodStart(period, now) + days * 24 * 60 * 60 * 1000;
+}
+
 /**
  * Calculate guild level from total XP
  * Uses same formula as user levels
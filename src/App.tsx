@@ -1,19 +1,26 @@
-import { Routes, Route } from "react-router-dom";
+import { Routes, Route, Link, useSearchParams } from "react-router-dom";
 import { Toaster } from "sonner";
 import { useState, useEffect } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
 import { SignUpButton, UserButton, SignedIn, SignedOut } from "@clerk/clerk-react";
 import { useUser } from "./contexts/UserContext";
+import { useAchievementNotifications } from "./hooks/useAchievementNotifications";
 import { showError } from "./utils/notifications";
-import { CustomLoginButton } from "./components/CustomLoginButton";
+import { CustomLoginButton, CustomLoginButtonCompact } from "./components/CustomLoginButton";
 import { CustomLogoutButtonCompact } from "./components/CustomLogoutButton";
 import LandingPage from "./components/LandingPage";
 import { GamePlayer } from "./components/GamePlayer";
 import { GameList } from "./components/GameList";
+import { RecentlyPlayedShelf } from "./components/RecentlyPlayedShelf";
 import { AdPanel } from "./components/AdPanel";
 import { NavigationBar } from "./components/NavigationBar";
 import { FriendsPanel } from "./components/FriendsPanel";
 import { GuildPanel } from "./components/GuildPanel";
 import { LevelPanel } from "./components/LevelPanel";
+import { AdminGames } from "./components/AdminGames";
+import { GameDetailPage } from "./components/GameDetailPage";
 
 export default function App() {
   return (
@@ -36,20 +43,72 @@ export default function App() {
       <Routes>
         <Route path="/" element={<LandingPage />} />
         <Route path="/main" element={<MainApp />} />
+        <Route path="/admin/games" element={<AdminGames />} />
+        <Route path="/game/:gameId" element={<GameDetailPage />} />
+        <Route path="/game/:gameId/play" element={<GameDetailPage autoPlay />} />
       </Routes>
     </div>
   );
 }
 
 function MainApp() {
-  const { currentUser, isLoading, isClerkAuthenticated, login, logout } = useUser();
+  const { currentUser, isLoading, isClerkAuthenticated, login, logout, sessionToken } = useUser();
   const [currentView, setCurrentView] = useState<"home" | "friends" | "level" | "guild">("home");
   const [selectedGame, setSelectedGame] = useState<any>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [playlistPlayback, setPlaylistPlayback] = useState<{ playlistId: Id<"playlists">; index: number } | null>(null);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showAnonymousLogin, setShowAnonymousLogin] = useState(false);
   const [username, setUsername] = useState("");
   const [loggingIn, setLoggingIn] = useState(false);
 
+  // Toast when achievements unlock
+  useAchievementNotifications();
+
+  // Shared playlist links (/main?playlist=<id>) start playing the playlist
+  const sharedPlaylistId = searchParams.get("playlist");
+  useEffect(() => {
+    if (sharedPlaylistId) {
+      setPlaylistPlayback({ playlistId: sharedPlaylistId as Id<"playlists">, index: 0 });
+      setCurrentView("home");
+    }
+  }, [sharedPlaylistId]);
+
+  const playlist = useQuery(
+    api.playlists.getPlaylist,
+    playlistPlayback ? { playlistId: playlistPlayback.playlistId, sessionToken } : "skip"
+  );
+
+  // The playlist game wins over a library pick while a playlist is playing
+  const playlistIndex = playlist
+    ? Math.min(playlistPlayback?.index ?? 0, Math.max(playlist.games.length - 1, 0))
+    : 0;
+  const activeGame = playlistPlayback ? playlist?.games[playlistIndex] ?? null : selectedGame;
+
+  useEffect(() => {
+    if (playlist === null) {
+      showError("Playlist not found", "It may have been deleted or made private");
+      setPlaylistPlayback(null);
+    }
+  }, [playlist]);
+
+  const handleSelectGame = (game: any) => {
+    setPlaylistPlayback(null);
+    setSelectedGame(game);
+  };
+
+  const handlePlayPlaylist = (playlistId: Id<"playlists">, index = 0) => {
+    setPlaylistPlayback({ playlistId, index });
+  };
+
+  const handleCloseGame = () => {
+    setSelectedGame(null);
+    setPlaylistPlayback(null);
+    if (sharedPlaylistId) {
+      setSearchParams({});
+    }
+  };
+
   useEffect(() => {
     // Show login modal if no user is logged in
     if (!isLoading && !currentUser) {
@@ -217,6 +276,15 @@ function MainApp() {
                   </div>
                 </div>
 
+                {currentUser.role === "admin" && (
+                  <Link
+                    to="/admin/games"
+                    className="px-3 py-2 bg-purple-500/30 text-purple-300 hover:bg-purple-500/50 rounded text-sm font-semibold transition-colors"
+                  >
+                    Admin
+                  </Link>
+                )}
+
                 {/* Show Clerk UserButton for authenticated users */}
                 <SignedIn>
                   <UserButton
@@ -228,6 +296,11 @@ function MainApp() {
                   />
                 </SignedIn>
 
+                {/* Guests can sign in without logging out to keep their progress */}
+                <SignedOut>
+                  <CustomLoginButtonCompact />
+                </SignedOut>
+
                 {/* Show custom logout button for anonymous users */}
                 <SignedOut>
                   <CustomLogoutButtonCompact
@@ -245,7 +318,9 @@ function MainApp() {
       <div className="flex-1 flex">
         {/* Left Sidebar - Game List */}
         <div className="w-80 bg-black/30 backdrop-blur-sm border-r border-cyan-500/30">
-          {currentView === "home" && <GameList onSelectGame={setSelectedGame} />}
+          {currentView === "home" && (
+            <GameList onSelectGame={handleSelectGame} onPlayPlaylist={handlePlayPlaylist} />
+          )}
           {currentView === "friends" && <FriendsPanel />}
           {currentView === "level" && <LevelPanel />}
           {currentView === "guild" && <GuildPanel />}
@@ -254,16 +329,30 @@ function MainApp() {
         {/* Center - Game Player or Feature Panel */}
         <div className="flex-1 flex items-center justify-center p-8">
           {currentView === "home" ? (
-            selectedGame ? (
+            activeGame ? (
               <GamePlayer
-                game={selectedGame}
-                onClose={() => setSelectedGame(null)}
+                game={activeGame}
+                onClose={handleCloseGame}
+                playlist={
+                  playlist && playlistPlayback
+                    ? {
+                        name: playlist.name,
+                        index: playlistIndex,
+                        total: playlist.games.length,
+                        onPrevious: () => handlePlayPlaylist(playlist._id, playlistIndex - 1),
+                        onNext: () => handlePlayPlaylist(playlist._id, playlistIndex + 1),
+                      }
+                    : undefined
+                }
               />
             ) : (
-              <div className="text-center">
+              <div className="text-center w-full max-w-3xl">
                 <div className="text-6xl mb-4">🎮</div>
                 <h2 className="text-2xl text-cyan-300 mb-2">Select a Game to Play</h2>
                 <p className="text-gray-400">Choose from our collection of classic Flash games</p>
+                <div className="mt-8 text-left">
+                  <RecentlyPlayedShelf onSelectGame={handleSelectGame} layout="grid" />
+                </div>
               </div>
             )
           ) : (
@@ -0,0 +1,460 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../contexts/UserContext";
+import { showError, showSuccess } from "../utils/notifications";
+
+type Difficulty = "Easy" | "Medium" | "Hard";
+
+interface GameForm {
+  title: string;
+  swfUrl: string;
+  thumbnail: string;
+  description: string;
+  tags: string; // Comma-separated in the form
+  category: string;
+  difficulty: Difficulty;
+  isMultiplayer: boolean;
+  isPublished: boolean;
+  scoreOrder: "higher" | "lower";
+  maxScorePerMinute: string; // Empty for no plausibility cap
+}
+
+const EMPTY_FORM: GameForm = {
+  title: "",
+  swfUrl: "",
+  thumbnail: "",
+  description: "",
+  tags: "",
+  category: "",
+  difficulty: "Medium",
+  isMultiplayer: false,
+  isPublished: true,
+  scoreOrder: "higher",
+  maxScorePerMinute: "",
+};
+
+const inputClass =
+  "w-full px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 placeholder-gray-500 focus:border-cyan-400 focus:outline-none";
+
+/**
+ * Admin catalog management page (/admin/games)
+ * The server rejects every call from non-admins; the client check only hides the UI.
+ */
+export function AdminGames() {
+  const { currentUser, isLoading, sessionToken } = useUser();
+  const isAdmin = currentUser?.role === "admin" && !currentUser.isAnonymous;
+
+  const games = useQuery(api.games.listAllGames, isAdmin ? { sessionToken } : "skip");
+  const createGame = useMutation(api.games.createGame);
+  const updateGame = useMutation(api.games.updateGame);
+  const archiveGame = useMutation(api.games.archiveGame);
+  const restoreGame = useMutation(api.games.restoreGame);
+  const generateUploadUrl = useMutation(api.games.generateUploadUrl);
+  const validateSwfUpload = useAction(api.swfUpload.validateSwfUpload);
+  const extractGameSwfMetadata = useAction(api.swfUpload.extractGameSwfMetadata);
+
+  // Suggest the categories already in the catalog
+  const categories = [...new Set(games?.map((game) => game.category) ?? [])].sort();
+
+  const [form, setForm] = useState<GameForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<Id<"games"> | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [scanningId, setScanningId] = useState<Id<"games"> | null>(null);
+  const [swfFile, setSwfFile] = useState<File | null>(null);
+  const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
+  const swfInputRef = useRef<HTMLInputElement>(null);
+  const thumbnailInputRef = useRef<HTMLInputElement>(null);
+
+  const setField = <K extends keyof GameForm>(key: K, value: GameForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const startEditing = (game: Doc<"games">) => {
+    setEditingId(game._id);
+    setForm({
+      title: game.title,
+      swfUrl: game.swfUrl,
+      thumbnail: game.thumbnail,
+      description: game.description ?? "",
+      tags: game.tags.join(", "),
+      category: game.category,
+      difficulty: game.difficulty,
+      isMultiplayer: game.isMultiplayer,
+      isPublished: game.isPublished !== false,
+      scoreOrder: game.scoreConfig?.order ?? "higher",
+      maxScorePerMinute: game.scoreConfig?.maxScorePerMinute?.toString() ?? "",
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setSwfFile(null);
+    setThumbnailFile(null);
+    if (swfInputRef.current) swfInputRef.current.value = "";
+    if (thumbnailInputRef.current) thumbnailInputRef.current.value = "";
+  };
+
+  // Upload a file to Convex storage and return its storage id
+  const uploadFile = async (file: File, contentType: string) => {
+    const uploadUrl = await generateUploadUrl({ sessionToken });
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": file.type || contentType },
+      body: file,
+    });
+    if (!response.ok) {
+      throw new Error(`Upload failed (${response.status})`);
+    }
+    const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+    return storageId;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const { scoreOrder, maxScorePerMinute, ...formFields } = form;
+    const fields = {
+      ...formFields,
+      description: form.description.trim() || undefined,
+      tags: form.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+      scoreConfig: {
+        order: scoreOrder,
+        // The cap only applies to "higher" games
+        maxScorePerMinute:
+          scoreOrder === "higher" && maxScorePerMinute.trim() ? Number(maxScorePerMinute) : undefined,
+      },
+    };
+
+    try {
+      // The server rejects SWFs that fail header validation
+      let swfStorageId: Id<"_storage"> | undefined;
+      if (swfFile) {
+        swfStorageId = await uploadFile(swfFile, "application/x-shockwave-flash");
+        const info = await validateSwfUpload({ sessionToken, storageId: swfStorageId, fileName: swfFile.name });
+        if (info.stageWidth && info.stageHeight) {
+          showSuccess("SWF validated", `${info.stageWidth}×${info.stageHeight} @ ${info.frameRate} fps`);
+        }
+      }
+
+      const thumbnailStorageId = thumbnailFile
+        ? await uploadFile(thumbnailFile, "image/png")
+        : undefined;
+
+      if (editingId) {
+        await updateGame({ sessionToken, gameId: editingId, ...fields, swfStorageId, thumbnailStorageId });
+        showSuccess("Game updated", form.title);
+      } else {
+        await createGame({ sessionToken, ...fields, swfStorageId, thumbnailStorageId });
+        showSuccess("Game created", form.title);
+      }
+      resetForm();
+    } catch (error: any) {
+      showError("Failed to save game", error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePublished = async (game: Doc<"games">) => {
+    try {
+      await updateGame({ sessionToken, gameId: game._id, isPublished: game.isPublished === false });
+    } catch (error: any) {
+      showError("Failed to update game", error.message);
+    }
+  };
+
+  const handleScan = async (game: Doc<"games">) => {
+    setScanningId(game._id);
+    try {
+      const metadata = await extractGameSwfMetadata({ sessionToken, gameId: game._id });
+      showSuccess(
+        "SWF scanned",
+        `${metadata.stageWidth}×${metadata.stageHeight} @ ${metadata.frameRate} fps, ${metadata.usesAS3 ? "AS3" : "AS1/2"}`
+      );
+    } catch (error: any) {
+      showError("Failed to scan SWF", error.message);
+    } finally {
+      setScanningId(null);
+    }
+  };
+
+  const handleArchive = async (game: Doc<"games">) => {
+    try {
+      if (game.archivedAt !== undefined) {
+        await restoreGame({ sessionToken, gameId: game._id });
+        showSuccess("Game restored", "Publish it to show it in the catalog again");
+      } else {
+        await archiveGame({ sessionToken, gameId: game._id });
+        showSuccess("Game archived", game.title);
+      }
+    } catch (error: any) {
+      showError("Failed to archive game", error.message);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="bg-black/50 border border-red-500/50 rounded-lg p-8 text-center">
+          <h2 className="text-2xl text-red-400 mb-4 pixel-font">ADMIN ONLY</h2>
+          <p className="text-gray-300 mb-4">You need an admin account to manage the game catalog.</p>
+          <Link to="/main" className="text-cyan-300 hover:text-cyan-100">← Back to games</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent pixel-font">
+          GAME CATALOG
+        </h1>
+        <Link to="/main" className="text-cyan-300 hover:text-cyan-100">← Back to games</Link>
+      </div>
+
+      {/* Create / Edit Form */}
+      <form onSubmit={(e) => void handleSubmit(e)} className="bg-black/40 border border-cyan-500/30 rounded-lg p-4 space-y-3">
+        <h2 className="text-lg font-bold text-cyan-300 pixel-font">
+          {editingId ? "EDIT GAME" : "ADD GAME"}
+        </h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="text"
+            placeholder="Title"
+            value={form.title}
+            onChange={(e) => setField("title", e.target.value)}
+            className={inputClass}
+            required
+          />
+          <input
+            type="text"
+            placeholder="SWF URL (or upload a file below)"
+            value={form.swfUrl}
+            onChange={(e) => setField("swfUrl", e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="Thumbnail URL (or upload a file below)"
+            value={form.thumbnail}
+            onChange={(e) => setField("thumbnail", e.target.value)}
+            className={inputClass}
+          />
+          <label className="text-sm text-cyan-300">
+            SWF file
+            <input
+              ref={swfInputRef}
+              type="file"
+              accept=".swf,application/x-shockwave-flash"
+              onChange={(e) => setSwfFile(e.target.files?.[0] ?? null)}
+              className="block w-full mt-1 text-gray-300"
+            />
+          </label>
+          <label className="text-sm text-cyan-300">
+            Thumbnail image
+            <input
+              ref={thumbnailInputRef}
+              type="file"
+              accept="image/*"
+              onChange={(e) => setThumbnailFile(e.target.files?.[0] ?? null)}
+              className="block w-full mt-1 text-gray-300"
+            />
+          </label>
+          <input
+            type="text"
+            placeholder="Tags (comma-separated)"
+            value={form.tags}
+            onChange={(e) => setField("tags", e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="Category"
+            list="admin-game-categories"
+            value={form.category}
+            onChange={(e) => setField("category", e.target.value)}
+            className={inputClass}
+            required
+          />
+          <datalist id="admin-game-categories">
+            {categories.map((cat) => (
+              <option key={cat} value={cat} />
+            ))}
+          </datalist>
+          <select
+            value={form.difficulty}
+            onChange={(e) => setField("difficulty", e.target.value as Difficulty)}
+            className={inputClass}
+          >
+            <option value="Easy">Easy</option>
+            <option value="Medium">Medium</option>
+            <option value="Hard">Hard</option>
+          </select>
+          <select
+            value={form.scoreOrder}
+            onChange={(e) => setField("scoreOrder", e.target.value as GameForm["scoreOrder"])}
+            className={inputClass}
+            aria-label="Score order"
+          >
+            <option value="higher">Higher scores rank first</option>
+            <option value="lower">Lower scores rank first (e.g. times)</option>
+          </select>
+          <input
+            type="number"
+            min={1}
+            placeholder="Max score per minute (optional)"
+            title="Scores above this rate for the session's length are rejected as implausible"
+            value={form.maxScorePerMinute}
+            onChange={(e) => setField("maxScorePerMinute", e.target.value)}
+            disabled={form.scoreOrder !== "higher"}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </div>
+
+        <textarea
+          placeholder="Description"
+          value={form.description}
+          onChange={(e) => setField("description", e.target.value)}
+          className={`${inputClass} resize-none`}
+          rows={2}
+        />
+
+        <div className="flex items-center gap-6">
+          <label className="flex items-center text-cyan-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.isMultiplayer}
+              onChange={(e) => setField("isMultiplayer", e.target.checked)}
+              className="mr-2 accent-cyan-400"
+            />
+            Multiplayer
+          </label>
+          <label className="flex items-center text-cyan-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.isPublished}
+              onChange={(e) => setField("isPublished", e.target.checked)}
+              className="mr-2 accent-cyan-400"
+            />
+            Published
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-gradient-to-r from-cyan-600 to-purple-600 hover:from-cyan-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 text-white rounded font-semibold transition-colors"
+          >
+            {saving ? "Saving..." : editingId ? "Save Changes" : "Add Game"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 bg-black/30 text-gray-400 hover:text-cyan-300 rounded font-semibold transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Catalog Table */}
+      <div className="bg-black/40 border border-cyan-500/30 rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-cyan-300 border-b border-cyan-500/30">
+              <th className="p-3">Title</th>
+              <th className="p-3">Category</th>
+              <th className="p-3">Difficulty</th>
+              <th className="p-3">Plays</th>
+              <th className="p-3">Status</th>
+              <th className="p-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {games?.map((game) => (
+              <tr key={game._id} className="border-b border-cyan-500/10 text-gray-300">
+                <td className="p-3">
+                  <div className="font-semibold text-cyan-100">{game.title}</div>
+                  <div className="text-xs text-gray-500 truncate max-w-xs">
+                    {game.swfStorageId ? "📦 Uploaded SWF" : game.swfUrl}
+                    {game.stageWidth && game.stageHeight
+                      ? ` · ${game.stageWidth}×${game.stageHeight} @ ${game.frameRate} fps`
+                      : ""}
+                    {game.swfVersion !== undefined
+                      ? ` · v${game.swfVersion}${game.usesAS3 ? " AS3" : ""}`
+                      : ""}
+                  </div>
+                </td>
+                <td className="p-3">{game.category}</td>
+                <td className="p-3">{game.difficulty}</td>
+                <td className="p-3">{game.playCount}</td>
+                <td className="p-3">
+                  {game.archivedAt !== undefined ? (
+                    <span className="text-xs px-2 py-1 bg-gray-500/30 text-gray-300 rounded">Archived</span>
+                  ) : game.isPublished === false ? (
+                    <span className="text-xs px-2 py-1 bg-yellow-500/30 text-yellow-300 rounded">Draft</span>
+                  ) : (
+                    <span className="text-xs px-2 py-1 bg-green-500/30 text-green-300 rounded">Published</span>
+                  )}
+                </td>
+                <td className="p-3">
+                  <div className="flex gap-2 justify-end">
+                    <button
+                      onClick={() => startEditing(game)}
+                      className="px-2 py-1 bg-cyan-500/30 text-cyan-300 hover:bg-cyan-500/50 rounded text-xs"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => void handleScan(game)}
+                      disabled={scanningId === game._id}
+                      className="px-2 py-1 bg-green-500/30 text-green-300 hover:bg-green-500/50 disabled:opacity-50 rounded text-xs"
+                      title="Read stage size, frame rate and metadata from the SWF"
+                    >
+                      {scanningId === game._id ? "Scanning..." : "Scan SWF"}
+                    </button>
+                    {game.archivedAt === undefined && (
+                      <button
+                        onClick={() => void handleTogglePublished(game)}
+                        className="px-2 py-1 bg-purple-500/30 text-purple-300 hover:bg-purple-500/50 rounded text-xs"
+                      >
+                        {game.isPublished === false ? "Publish" : "Unpublish"}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => void handleArchive(game)}
+                      className="px-2 py-1 bg-red-500/30 text-red-300 hover:bg-red-500/50 rounded text-xs"
+                    >
+                      {game.archivedAt !== undefined ? "Restore" : "Archive"}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {games?.length === 0 && (
+          <p className="text-sm text-gray-400 text-center p-4">No games in the catalog yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
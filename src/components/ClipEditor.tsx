@@ -0,0 +1,211 @@
+import { useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { toast } from "sonner";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../contexts/UserContext";
+import { Recording } from "../hooks/useClipRecorder";
+
+// Matches the clips.saveClip limits
+const MAX_CLIP_BYTES = 50 * 1024 * 1024;
+const MIN_CLIP_SECONDS = 1;
+const TRIM_STEP_SECONDS = 0.1;
+
+interface ClipEditorProps {
+  recording: Recording;
+  onDone: () => void; // Saved or discarded
+}
+
+/**
+ * Trim, title and save a just-recorded clip
+ */
+export function ClipEditor({ recording, onDone }: ClipEditorProps) {
+  const { currentUser, sessionToken } = useUser();
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(recording.duration);
+  const [title, setTitle] = useState("");
+  const [shareToGuild, setShareToGuild] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const generateUploadUrl = useMutation(api.clips.generateUploadUrl);
+  const saveClip = useMutation(api.clips.saveClip);
+  const shareClip = useMutation(api.guildMessages.shareClip);
+
+  // Preview from the trim start and stop at the trim end
+  const seekTo = (seconds: number) => {
+    if (videoRef.current) videoRef.current.currentTime = seconds;
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (video && video.currentTime >= trimEnd) {
+      video.pause();
+      video.currentTime = trimStart;
+    }
+  };
+
+  const handleSave = async () => {
+    if (recording.blob.size > MAX_CLIP_BYTES) {
+      toast.error("This clip is too large to save (max 50 MB)");
+      return;
+    }
+
+    setSaving(true);
+    let clipId: Id<"clips">;
+    try {
+      const uploadUrl = await generateUploadUrl({ sessionToken });
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": recording.blob.type },
+        body: recording.blob,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed (${response.status})`);
+      }
+      const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+
+      const saved = await saveClip({
+        sessionToken,
+        gameId: recording.gameId,
+        sessionId: recording.sessionId,
+        storageId,
+        title: title.trim() || undefined,
+        duration: recording.duration,
+        trimStart,
+        trimEnd,
+        hasAudio: recording.hasAudio,
+      });
+      clipId = saved.clipId;
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save clip");
+      setSaving(false);
+      return;
+    }
+
+    // The clip is saved either way, so a failed share closes the editor instead of
+    // inviting a retry that would save it twice
+    if (shareToGuild) {
+      try {
+        await shareClip({ sessionToken, clipId });
+        toast.success("Clip saved and shared to your guild", {
+          description: "It's on the game's page",
+        });
+      } catch (error: any) {
+        toast.error("Clip saved, but sharing to your guild failed", {
+          description: `${error.message || "Unknown error"}. You can share it from the game's page.`,
+        });
+      }
+    } else {
+      toast.success("Clip saved", { description: "It's on the game's page" });
+    }
+
+    setSaving(false);
+    onDone();
+  };
+
+  const tooShort = recording.duration < MIN_CLIP_SECONDS;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <video
+        ref={videoRef}
+        src={recording.url}
+        controls
+        playsInline
+        onPlay={() => {
+          const video = videoRef.current;
+          if (video && (video.currentTime < trimStart || video.currentTime >= trimEnd)) {
+            video.currentTime = trimStart;
+          }
+        }}
+        onTimeUpdate={handleTimeUpdate}
+        className="w-full max-h-72 bg-black rounded"
+      />
+      {tooShort && (
+        <p className="text-xs text-red-400">This recording is too short to save (min {MIN_CLIP_SECONDS}s).</p>
+      )}
+      <p className="text-xs text-gray-500">
+        Trimming sets the part that plays back; the full recording is uploaded.
+      </p>
+      {!recording.hasAudio && (
+        <p className="text-xs text-gray-500">No game audio was captured for this clip.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-gray-300">
+          Start ({trimStart.toFixed(1)}s)
+          <input
+            type="range"
+            min={0}
+            max={recording.duration}
+            step={TRIM_STEP_SECONDS}
+            value={trimStart}
+            onChange={(e) => {
+              const value = Math.min(Number(e.target.value), trimEnd - MIN_CLIP_SECONDS);
+              setTrimStart(Math.max(0, value));
+              seekTo(Math.max(0, value));
+            }}
+            className="accent-cyan-500"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          End ({trimEnd.toFixed(1)}s)
+          <input
+            type="range"
+            min={0}
+            max={recording.duration}
+            step={TRIM_STEP_SECONDS}
+            value={trimEnd}
+            onChange={(e) => {
+              const value = Math.max(Number(e.target.value), trimStart + MIN_CLIP_SECONDS);
+              setTrimEnd(Math.min(recording.duration, value));
+              seekTo(Math.min(recording.duration, value));
+            }}
+            className="accent-cyan-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={80}
+          placeholder="Title (optional)"
+          className="flex-1 px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 placeholder-gray-400 focus:border-cyan-400 focus:outline-none"
+        />
+        {currentUser?.guildId && (
+          <label className="flex items-center gap-2 text-gray-300">
+            <input
+              type="checkbox"
+              checked={shareToGuild}
+              onChange={(e) => setShareToGuild(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Share to guild
+          </label>
+        )}
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={onDone}
+          disabled={saving}
+          className="px-4 py-2 bg-black/30 text-gray-400 hover:text-red-300 rounded transition-colors"
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => void handleSave()}
+          disabled={saving || tooShort}
+          className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 text-white rounded transition-colors font-semibold"
+        >
+          {saving ? "Saving..." : `Save ${(trimEnd - trimStart).toFixed(1)}s clip`}
+        </button>
+      </div>
+    </div>
+  );
+}
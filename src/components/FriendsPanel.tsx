@@ -5,7 +5,7 @@ import { useUser } from "../contexts/UserContext";
 import { showSuccess, showError } from "../utils/notifications";
 
 export function FriendsPanel() {
-  const { currentUser } = useUser();
+  const { currentUser, sessionToken } = useUser();
   const [activeTab, setActiveTab] = useState<"friends" | "requests">("friends");
   const [friendUsername, setFriendUsername] = useState("");
   const [sendingRequest, setSendingRequest] = useState(false);
@@ -16,7 +16,7 @@ export function FriendsPanel() {
   );
   const pendingRequests = useQuery(
     api.friends.getPendingRequests,
-    currentUser?._id ? { userId: currentUser._id } : "skip"
+    currentUser?._id ? { sessionToken } : "skip"
   );
 
   const acceptRequest = useMutation(api.friends.acceptFriendRequest);
@@ -24,7 +24,7 @@ export function FriendsPanel() {
 
   const handleAcceptRequest = async (requestId: any) => {
     try {
-      await acceptRequest({ requestId });
+      await acceptRequest({ sessionToken, requestId });
     } catch (err) {
       console.error("Failed to accept friend request:", err);
     }
@@ -37,7 +37,7 @@ export function FriendsPanel() {
     setSendingRequest(true);
     try {
       await sendRequest({
-        requesterId: currentUser._id,
+        sessionToken,
         recipientUsername: friendUsername.trim(),
       });
       showSuccess(`Friend request sent to ${friendUsername}`, "They'll see your request in their Friends panel");
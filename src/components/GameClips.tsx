@@ -0,0 +1,116 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../contexts/UserContext";
+import { showError, showSuccess } from "../utils/notifications";
+
+interface ClipVideoProps {
+  url: string;
+  trimStart: number;
+  trimEnd: number;
+  className?: string;
+}
+
+/**
+ * Play a clip's trimmed range (a media fragment, so the full recording isn't re-encoded)
+ */
+export function ClipVideo({ url, trimStart, trimEnd, className }: ClipVideoProps) {
+  return (
+    <video
+      src={`${url}#t=${trimStart.toFixed(1)},${trimEnd.toFixed(1)}`}
+      controls
+      preload="metadata"
+      playsInline
+      className={className}
+    />
+  );
+}
+
+interface GameClipsProps {
+  gameId: Id<"games">;
+}
+
+/**
+ * Recent clips recorded in a game
+ */
+export function GameClips({ gameId }: GameClipsProps) {
+  const { currentUser, sessionToken } = useUser();
+
+  const clips = useQuery(api.clips.getGameClips, { gameId, sessionToken });
+  const deleteClip = useMutation(api.clips.deleteClip);
+  const shareClip = useMutation(api.guildMessages.shareClip);
+
+  const handleShare = async (clipId: Id<"clips">) => {
+    const caption = prompt("Add a caption (optional)");
+    if (caption === null) return;
+
+    try {
+      await shareClip({ sessionToken, clipId, content: caption });
+      showSuccess("Shared to guild chat");
+    } catch (error: any) {
+      showError("Failed to share clip", error.message);
+    }
+  };
+
+  const handleDelete = async (clipId: Id<"clips">) => {
+    if (!confirm("Delete this clip?")) return;
+
+    try {
+      await deleteClip({ sessionToken, clipId });
+    } catch (error: any) {
+      showError("Failed to delete clip", error.message);
+    }
+  };
+
+  if (!clips || clips.length === 0) {
+    return (
+      <p className="text-sm text-gray-400 text-center">
+        No clips yet. Press ⏺ Record while playing to capture one.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      {clips.map((clip) => (
+        <div key={clip._id} className="bg-black/20 border border-cyan-500/20 rounded overflow-hidden">
+          {clip.url && (
+            <ClipVideo
+              url={clip.url}
+              trimStart={clip.trimStart}
+              trimEnd={clip.trimEnd}
+              className="w-full aspect-video bg-black"
+            />
+          )}
+          <div className="p-2">
+            <div className="text-sm font-semibold text-cyan-100 truncate">
+              {clip.title || `${Math.round(clip.trimEnd - clip.trimStart)}s clip`}
+            </div>
+            <div className="text-xs text-gray-500">
+              {clip.username} • {new Date(clip.createdAt).toLocaleDateString()}
+              {!clip.hasAudio && " • no audio"}
+            </div>
+            {clip.isMine && (
+              <div className="flex gap-3 mt-1">
+                {currentUser?.guildId && (
+                  <button
+                    onClick={() => void handleShare(clip._id)}
+                    className="text-xs text-cyan-300 hover:text-cyan-100"
+                  >
+                    Share to guild
+                  </button>
+                )}
+                <button
+                  onClick={() => void handleDelete(clip._id)}
+                  className="text-xs text-red-400 hover:text-red-300"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useUser } from "../contexts/UserContext";
+import { getGameUrl } from "../utils/gameLinks";
+import { showError, showSuccess } from "../utils/notifications";
+import { GamePlayer } from "./GamePlayer";
+import { GameLeaderboard } from "./GameLeaderboard";
+import { GameReviews } from "./GameReviews";
+import { GameClips } from "./GameClips";
+
+interface GameDetailPageProps {
+  autoPlay?: boolean;
+}
+
+/**
+ * Game detail page (/game/:gameId) with a play route (/game/:gameId/play)
+ * Shareable: links to these pages are clickable in guild chat.
+ */
+export function GameDetailPage({ autoPlay = false }: GameDetailPageProps) {
+  const { gameId = "" } = useParams();
+  const navigate = useNavigate();
+  const { sessionToken } = useUser();
+  const game = useQuery(api.games.getGame, { gameId, sessionToken });
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(getGameUrl(gameId));
+      showSuccess("Link copied", "Paste it in guild chat to share this game");
+    } catch {
+      showError("Couldn't copy link", getGameUrl(gameId));
+    }
+  };
+
+  if (game === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  if (game === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="bg-black/50 border border-red-500/50 rounded-lg p-8 text-center">
+          <h2 className="text-2xl text-red-400 mb-4 pixel-font">GAME NOT FOUND</h2>
+          <p className="text-gray-300 mb-4">This game doesn't exist or is no longer available.</p>
+          <Link to="/main" className="text-cyan-300 hover:text-cyan-100">← Back to games</Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (autoPlay) {
+    return (
+      <div className="min-h-screen p-6 flex flex-col items-center gap-4">
+        <div className="w-full max-w-4xl">
+          <Link to={`/game/${game._id}`} className="text-cyan-300 hover:text-cyan-100">
+            ← {game.title}
+          </Link>
+        </div>
+        <GamePlayer game={game} onClose={() => navigate(`/game/${game._id}`)} />
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: "Plays", value: game.playCount.toLocaleString() },
+    {
+      label: "Rating",
+      value: game.ratingCount ? `★ ${game.ratingAverage?.toFixed(1)} (${game.ratingCount})` : "—",
+    },
+    { label: "Difficulty", value: game.difficulty },
+    { label: "Category", value: game.category },
+  ];
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link to="/main" className="text-cyan-300 hover:text-cyan-100">← Back to games</Link>
+
+        {/* Header */}
+        <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-6 flex flex-col md:flex-row gap-6">
+          {game.thumbnail ? (
+            <img
+              src={game.thumbnail}
+              alt={game.title}
+              className="w-full md:w-48 h-48 rounded object-cover"
+            />
+          ) : (
+            <div className="w-full md:w-48 h-48 bg-gradient-to-br from-purple-500 to-cyan-500 rounded flex items-center justify-center text-white text-6xl font-bold">
+              {game.title.charAt(0)}
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <h1 className="text-3xl font-bold text-cyan-300 pixel-font">{game.title}</h1>
+            {game.isMultiplayer && <div className="text-sm text-cyan-400 mt-1">🌐 Multiplayer</div>}
+            {game.description && <p className="text-gray-300 mt-3">{game.description}</p>}
+            <div className="flex flex-wrap gap-2 mt-3">
+              {game.tags.map((tag) => (
+                <span key={tag} className="text-xs px-2 py-1 bg-purple-500/30 text-purple-300 rounded">
+                  {tag}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-3 mt-5">
+              <button
+                onClick={() => navigate(`/game/${game._id}/play`)}
+                className="px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded font-bold transition-colors"
+              >
+                ▶ Play
+              </button>
+              <button
+                onClick={() => void handleShare()}
+                className="px-4 py-3 bg-black/30 text-cyan-300 hover:text-cyan-100 rounded font-semibold transition-colors"
+              >
+                🔗 Share
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="bg-black/40 border border-cyan-500/30 rounded-lg p-3 text-center">
+              <div className="text-xs text-gray-400">{stat.label}</div>
+              <div className="text-lg font-bold text-cyan-100 truncate">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Leaderboard & Reviews */}
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-cyan-300 pixel-font mb-3">LEADERBOARD</h2>
+            <GameLeaderboard gameId={game._id} />
+          </div>
+          <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4">
+            <h2 className="text-lg font-bold text-cyan-300 pixel-font mb-3">REVIEWS</h2>
+            <GameReviews
+              gameId={game._id}
+              ratingAverage={game.ratingAverage}
+              ratingCount={game.ratingCount}
+            />
+          </div>
+        </div>
+
+        {/* Clips */}
+        <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4">
+          <h2 className="text-lg font-bold text-cyan-300 pixel-font mb-3">CLIPS</h2>
+          <GameClips gameId={game._id} />
+        </div>
+      </div>
+    </div>
+  );
+}
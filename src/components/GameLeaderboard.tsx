@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../contexts/UserContext";
+
+type Period = "daily" | "weekly" | "allTime";
+
+const PERIODS: { id: Period; label: string }[] = [
+  { id: "daily", label: "Daily" },
+  { id: "weekly", label: "Weekly" },
+  { id: "allTime", label: "All-Time" },
+];
+
+interface GameLeaderboardProps {
+  gameId: Id<"games">;
+}
+
+export function GameLeaderboard({ gameId }: GameLeaderboardProps) {
+  const { currentUser } = useUser();
+  const [period, setPeriod] = useState<Period>("daily");
+
+  const leaderboard = useQuery(api.gameScores.getScoreLeaderboard, {
+    gameId,
+    period,
+    limit: 10,
+  });
+
+  return (
+    <div className="space-y-3">
+      {/* Period Tabs */}
+      <div className="flex gap-2">
+        {PERIODS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setPeriod(id)}
+            className={`px-3 py-2 rounded text-sm font-semibold transition-colors ${
+              period === id
+                ? "bg-cyan-500/30 text-cyan-300"
+                : "bg-black/30 text-gray-400 hover:text-cyan-300"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {leaderboard === undefined ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+        </div>
+      ) : leaderboard.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          No scores yet. Be the first!
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {leaderboard.map((entry) => (
+            <div
+              key={entry.user?._id ?? entry.rank}
+              className={`flex items-center gap-3 p-2 rounded ${
+                entry.user?._id === currentUser?._id
+                  ? "bg-cyan-500/20 border border-cyan-500/50"
+                  : "bg-black/20"
+              }`}
+            >
+              <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${
+                entry.rank === 1 ? "bg-yellow-500 text-black" :
+                entry.rank === 2 ? "bg-gray-400 text-black" :
+                entry.rank === 3 ? "bg-orange-600 text-white" :
+                "bg-gray-600 text-white"
+              }`}>
+                {entry.rank}
+              </div>
+              <div className="flex-1 font-semibold text-cyan-100">
+                {entry.user?.username ?? "Unknown"}
+                {entry.user?._id === currentUser?._id && (
+                  <span className="ml-2 text-xs text-cyan-400">(You)</span>
+                )}
+              </div>
+              <div className="font-bold text-purple-400">
+                {entry.score.toLocaleString()}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,127 +1,346 @@
-import { useQuery } from "convex/react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import { useState } from "react";
+import { Id } from "../../convex/_generated/dataModel";
+import { useEffect, useRef, useState } from "react";
+import { useUser } from "../contexts/UserContext";
+import { showError } from "../utils/notifications";
+import { PlaylistPanel } from "./PlaylistPanel";
+import { RecentlyPlayedShelf } from "./RecentlyPlayedShelf";
+import { RecommendationsShelf } from "./RecommendationsShelf";
+
+const PAGE_SIZE = 20;
 
 interface GameListProps {
   onSelectGame: (game: any) => void;
+  onPlayPlaylist: (playlistId: Id<"playlists">, index?: number) => void;
 }
 
-export function GameList({ onSelectGame }: GameListProps) {
+type Difficulty = "Easy" | "Medium" | "Hard";
+type SortOption = "newest" | "popular" | "rating" | "title";
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "popular", label: "Most Played" },
+  { value: "rating", label: "Top Rated" },
+  { value: "title", label: "A-Z" },
+];
+
+// How many tag chips to show before "more"
+const TOP_TAGS = 8;
+
+const selectClass =
+  "w-full px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 focus:border-cyan-400 focus:outline-none";
+
+export function GameList({ onSelectGame, onPlayPlaylist }: GameListProps) {
+  const { currentUser, sessionToken } = useUser();
+  const [tab, setTab] = useState<"library" | "playlists">("library");
   const [search, setSearch] = useState("");
   const [category, setCategory] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty | "">("");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [showAllTags, setShowAllTags] = useState(false);
   const [multiplayerOnly, setMultiplayerOnly] = useState(false);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [sort, setSort] = useState<SortOption>("newest");
+
+  const facets = useQuery(api.games.getCatalogFacets);
+  const favoriteIds = useQuery(api.favorites.getFavoriteIds, currentUser ? { sessionToken } : "skip");
+  const setFavorite = useMutation(api.favorites.setFavorite);
 
-  const games = useQuery(api.games.listGames, {
+  const filters = {
     search: search || undefined,
     category: category || undefined,
+    tags: selectedTags.length > 0 ? selectedTags : undefined,
+    difficulty: difficulty || undefined,
     multiplayerOnly: multiplayerOnly || undefined,
-  });
+    favoritesOnly: favoritesOnly || undefined,
+    sort,
+    sessionToken,
+  };
+
+  const toggleFavorite = async (gameId: Id<"games">) => {
+    try {
+      await setFavorite({ sessionToken, gameId, favorite: !favoriteIds?.includes(gameId) });
+    } catch (error: any) {
+      showError("Failed to update favorites", error.message);
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+  };
+
+  const visibleTags = facets
+    ? showAllTags
+      ? facets.tags
+      : facets.tags.slice(0, TOP_TAGS)
+    : [];
+
+  const { results: games, status, loadMore } = usePaginatedQuery(
+    api.games.listGames,
+    filters,
+    { initialNumItems: PAGE_SIZE }
+  );
+  const totalCount = useQuery(api.games.countGames, filters);
+
+  // Infinite scroll: load the next page when the sentinel scrolls into view
+  // (re-observed when the Library tab remounts the list)
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || status !== "CanLoadMore") return;
 
-  const categories = ["Strategy", "Adventure", "Music", "Action", "Puzzle", "Sports"];
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore(PAGE_SIZE);
+      },
+      { root: listRef.current, rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [status, loadMore, tab]);
 
   return (
     <div className="h-full flex flex-col">
       <div className="p-4 border-b border-cyan-500/30">
         <h2 className="text-xl font-bold text-cyan-300 mb-4 pixel-font">GAME LIBRARY</h2>
 
-        {/* Search */}
-        <input
-          type="text"
-          placeholder="Search games..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          className="w-full px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 placeholder-gray-400 focus:border-cyan-400 focus:outline-none mb-3"
-        />
-
-        {/* Filters */}
-        <div className="space-y-2">
-          <select
-            value={category}
-            onChange={(e) => setCategory(e.target.value)}
-            className="w-full px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 focus:border-cyan-400 focus:outline-none"
-          >
-            <option value="">All Categories</option>
-            {categories.map((cat) => (
-              <option key={cat} value={cat}>{cat}</option>
-            ))}
-          </select>
-
-          <label className="flex items-center text-cyan-300 cursor-pointer">
+        {/* Tabs */}
+        <div className="flex gap-2 mb-3">
+          {(["library", "playlists"] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`flex-1 px-3 py-1 rounded text-sm font-semibold capitalize transition-colors ${
+                tab === value
+                  ? "bg-cyan-500/30 text-cyan-300"
+                  : "bg-black/30 text-gray-400 hover:text-cyan-300"
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+
+        {tab === "library" && (
+          <>
+            <div className="mb-3 space-y-3">
+              <RecentlyPlayedShelf onSelectGame={onSelectGame} limit={6} />
+              <RecommendationsShelf onSelectGame={onSelectGame} limit={6} />
+            </div>
+
+            {/* Search */}
             <input
-              type="checkbox"
-              checked={multiplayerOnly}
-              onChange={(e) => setMultiplayerOnly(e.target.checked)}
-              className="mr-2 accent-cyan-400"
+              type="text"
+              placeholder="Search games..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 placeholder-gray-400 focus:border-cyan-400 focus:outline-none mb-3"
             />
-            Multiplayer Only
-          </label>
-        </div>
-      </div>
 
-      {/* Games List */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-3 max-h-96">
-        {games?.map((game) => (
-          <div
-            key={game._id}
-            onClick={() => onSelectGame(game)}
-            className="bg-black/40 border border-cyan-500/30 rounded-lg p-3 cursor-pointer hover:border-cyan-400 hover:bg-black/60 transition-all group"
-          >
-            <div className="flex items-center gap-3">
-              {game.thumbnail ? (
-                <img
-                  src={game.thumbnail}
-                  alt={game.title}
-                  className="w-12 h-12 rounded object-cover"
-                  onError={(e) => {
-                    e.currentTarget.style.display = 'none';
-                    e.currentTarget.nextElementSibling.style.display = 'flex';
-                  }}
-                />
-              ) : null}
-              <div
-                className="w-12 h-12 bg-gradient-to-br from-purple-500 to-cyan-500 rounded flex items-center justify-center text-white font-bold"
-                style={{ display: game.thumbnail ? 'none' : 'flex' }}
+            {/* Filters */}
+            <div className="space-y-2">
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className={selectClass}
               >
-                {game.title.charAt(0)}
+                <option value="">All Categories</option>
+                {facets?.categories.map((cat) => (
+                  <option key={cat.value} value={cat.value}>{cat.value} ({cat.count})</option>
+                ))}
+              </select>
+
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value as Difficulty | "")}
+                  className={selectClass}
+                >
+                  <option value="">Any Difficulty</option>
+                  {facets?.difficulties.map((d) => (
+                    <option key={d.value} value={d.value}>{d.value} ({d.count})</option>
+                  ))}
+                </select>
+
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as SortOption)}
+                  className={selectClass}
+                  title={search ? "Search results are ordered by relevance" : undefined}
+                  disabled={!!search}
+                >
+                  {SORT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
               </div>
-              <div className="flex-1 min-w-0">
-                <h3 className="font-semibold text-cyan-100 truncate group-hover:text-cyan-300">
-                  {game.title}
-                </h3>
-                <div className="flex items-center gap-2 text-xs text-gray-400">
-                  <span className="px-2 py-1 bg-purple-500/30 rounded">{game.category}</span>
-                  {game.isMultiplayer && (
-                    <span className="px-2 py-1 bg-cyan-500/30 rounded">MP</span>
+
+              {/* Tags (games must have every selected tag) */}
+              {visibleTags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {visibleTags.map((tag) => (
+                    <button
+                      key={tag.value}
+                      onClick={() => toggleTag(tag.value)}
+                      className={`text-xs px-2 py-1 rounded transition-colors ${
+                        selectedTags.includes(tag.value)
+                          ? "bg-cyan-500 text-black"
+                          : "bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/40"
+                      }`}
+                    >
+                      {tag.value} ({tag.count})
+                    </button>
+                  ))}
+                  {facets && facets.tags.length > TOP_TAGS && (
+                    <button
+                      onClick={() => setShowAllTags((prev) => !prev)}
+                      className="text-xs px-2 py-1 text-gray-400 hover:text-cyan-300"
+                    >
+                      {showAllTags ? "less" : `+${facets.tags.length - TOP_TAGS} more`}
+                    </button>
                   )}
-                  <span className="px-2 py-1 bg-gray-500/30 rounded">{game.difficulty}</span>
                 </div>
-                <div className="text-xs text-gray-500 mt-1">
-                  {game.playCount} plays
+              )}
+
+              <label className="flex items-center text-cyan-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={multiplayerOnly}
+                  onChange={(e) => setMultiplayerOnly(e.target.checked)}
+                  className="mr-2 accent-cyan-400"
+                />
+                Multiplayer Only{facets ? ` (${facets.multiplayer})` : ""}
+              </label>
+
+              {currentUser && (
+                <label className="flex items-center text-cyan-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={favoritesOnly}
+                    onChange={(e) => setFavoritesOnly(e.target.checked)}
+                    className="mr-2 accent-cyan-400"
+                  />
+                  ★ Favorites{favoriteIds ? ` (${favoriteIds.length})` : ""}
+                </label>
+              )}
+            </div>
+
+            {totalCount !== undefined && (
+              <div className="text-xs text-gray-400 mt-3">
+                {totalCount} {totalCount === 1 ? "game" : "games"} found
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {tab === "playlists" && (
+        <div className="flex-1 overflow-y-auto p-4">
+          <PlaylistPanel onPlayPlaylist={onPlayPlaylist} />
+        </div>
+      )}
+
+      {/* Games List */}
+      {tab === "library" && (
+        <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-3 max-h-96">
+          {games.map((game) => (
+            <div
+              key={game._id}
+              onClick={() => onSelectGame(game)}
+              className="bg-black/40 border border-cyan-500/30 rounded-lg p-3 cursor-pointer hover:border-cyan-400 hover:bg-black/60 transition-all group"
+            >
+              <div className="flex items-center gap-3">
+                {game.thumbnail ? (
+                  <img
+                    src={game.thumbnail}
+                    alt={game.title}
+                    className="w-12 h-12 rounded object-cover"
+                    onError={(e) => {
+                      e.currentTarget.style.display = 'none';
+                      e.currentTarget.nextElementSibling.style.display = 'flex';
+                    }}
+                  />
+                ) : null}
+                <div
+                  className="w-12 h-12 bg-gradient-to-br from-purple-500 to-cyan-500 rounded flex items-center justify-center text-white font-bold"
+                  style={{ display: game.thumbnail ? 'none' : 'flex' }}
+                >
+                  {game.title.charAt(0)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="flex-1 font-semibold text-cyan-100 truncate group-hover:text-cyan-300">
+                      {game.title}
+                    </h3>
+                    {currentUser && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          void toggleFavorite(game._id);
+                        }}
+                        className={`text-lg leading-none transition-colors ${
+                          favoriteIds?.includes(game._id)
+                            ? "text-yellow-400"
+                            : "text-gray-600 hover:text-yellow-200"
+                        }`}
+                        aria-label={favoriteIds?.includes(game._id) ? "Remove from favorites" : "Add to favorites"}
+                      >
+                        ★
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <span className="px-2 py-1 bg-purple-500/30 rounded">{game.category}</span>
+                    {game.isMultiplayer && (
+                      <span className="px-2 py-1 bg-cyan-500/30 rounded">MP</span>
+                    )}
+                    <span className="px-2 py-1 bg-gray-500/30 rounded">{game.difficulty}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {game.playCount} plays
+                    {game.ratingCount ? (
+                      <span className="ml-2 text-yellow-400">★ {game.ratingAverage?.toFixed(1)}</span>
+                    ) : null}
+                  </div>
                 </div>
               </div>
+
+              {/* Tags */}
+              <div className="flex flex-wrap gap-1 mt-2">
+                {game.tags.slice(0, 3).map((tag: string) => (
+                  <span
+                    key={tag}
+                    className="text-xs px-2 py-1 bg-cyan-500/20 text-cyan-300 rounded"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
             </div>
+          ))}
 
-            {/* Tags */}
-            <div className="flex flex-wrap gap-1 mt-2">
-              {game.tags.slice(0, 3).map((tag: string) => (
-                <span
-                  key={tag}
-                  className="text-xs px-2 py-1 bg-cyan-500/20 text-cyan-300 rounded"
-                >
-                  {tag}
-                </span>
-              ))}
+          {status === "Exhausted" && games.length === 0 && (
+            <div className="text-center text-gray-400 py-8">
+              <div className="text-4xl mb-2">🎮</div>
+              <p>No games found</p>
             </div>
-          </div>
-        ))}
-
-        {games?.length === 0 && (
-          <div className="text-center text-gray-400 py-8">
-            <div className="text-4xl mb-2">🎮</div>
-            <p>No games found</p>
-          </div>
-        )}
-      </div>
+          )}
+
+          {(status === "LoadingFirstPage" || status === "LoadingMore") && (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+            </div>
+          )}
+
+          <div ref={sentinelRef} className="h-1" />
+        </div>
+      )}
     </div>
   );
 }
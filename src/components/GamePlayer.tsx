@@ -1,37 +1,246 @@
-import { useEffect, useRef, useState } from "react";
-import { useMutation } from "convex/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
 import { useUser } from "../contexts/UserContext";
 import { toast } from "sonner";
 import { useMobileDetection } from "../hooks/useMobileDetection";
 import { useGameInput } from "../hooks/useGameInput";
+import { useGameBridge } from "../hooks/useGameBridge";
+import { useInputActivity } from "../hooks/useInputActivity";
+import { usePlayerScaleMode } from "../hooks/usePlayerScaleMode";
+import { SAVE_SLOTS, useCloudSaves } from "../hooks/useCloudSaves";
+import { SettingsScope, usePlayerSettings } from "../hooks/usePlayerSettings";
+import { isClipRecordingSupported, MAX_CLIP_SECONDS, useClipRecorder } from "../hooks/useClipRecorder";
+import { computePlayerSize, SCALE_MODES } from "../utils/playerSizing";
+import { getGameUrl } from "../utils/gameLinks";
+import { captureCanvasFrame } from "../utils/canvasCapture";
+import { installAudioTap } from "../utils/audioCapture";
+import {
+  AUTOPLAY_OPTIONS,
+  FRAME_RATE_OPTIONS,
+  LETTERBOX_OPTIONS,
+  PlayerSettings,
+  QUALITY_OPTIONS,
+  STAGE_SCALE_OPTIONS,
+  toRuffleConfig,
+} from "../utils/playerSettings";
+import { LoadedRuffle, loadRuffle } from "../utils/ruffleLoader";
 import { MobileControls } from "./MobileControls";
+import { GameLeaderboard } from "./GameLeaderboard";
+import { GameReviews } from "./GameReviews";
+import { ClipEditor } from "./ClipEditor";
+
+// Space taken by the game header and bottom bar on mobile
+const MOBILE_CHROME_HEIGHT_PX = 120;
+// Hotkey for taking a screenshot (rarely used by Flash games)
+const SCREENSHOT_KEY = "F9";
+// Matches the max-w-4xl desktop layout
+const DESKTOP_MAX_WIDTH_PX = 896;
+const DESKTOP_BORDER_PX = 2;
+
+// Position in the playlist being played through
+interface PlaylistPlayback {
+  name: string;
+  index: number;
+  total: number;
+  onPrevious: () => void;
+  onNext: () => void;
+}
 
 interface GamePlayerProps {
   game: any;
   onClose?: () => void; // New prop for closing game view (mobile)
+  playlist?: PlaylistPlayback;
 }
 
-export function GamePlayer({ game, onClose }: GamePlayerProps) {
-  const { currentUser } = useUser();
+export function GamePlayer({ game, onClose, playlist }: GamePlayerProps) {
+  const { currentUser, sessionToken } = useUser();
   const { isMobile, viewport } = useMobileDetection();
   const containerRef = useRef<HTMLDivElement>(null);
   const rufflePlayerRef = useRef<any>(null); // Store Ruffle player instance for resizing
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [playTime, setPlayTime] = useState(0); // in seconds
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [showReviews, setShowReviews] = useState(false);
+  const [showSaves, setShowSaves] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [estimatedExp, setEstimatedExp] = useState(0); // from server-credited active time
   const sessionIdRef = useRef<string | null>(null);
+  const loadedRuffleRef = useRef<LoadedRuffle | null>(null);
+
+  // Resolved by the server so uploaded SWFs load from our own storage
+  const gameDetails = useQuery(api.games.getGame, { gameId: game._id, sessionToken });
+  const swfUrl: string | undefined = gameDetails?.swfUrl;
+  const stageWidth = gameDetails?.stageWidth;
+  const stageHeight = gameDetails?.stageHeight;
+  const backgroundColor = gameDetails?.backgroundColor;
+
+  // Fit / pixel-perfect / fill, remembered per game
+  const { scaleMode, setScaleMode } = usePlayerScaleMode(game._id);
+
+  // Ruffle settings (account or localStorage); changes other than volume reload the game
+  const playerSettings = usePlayerSettings(game._id);
+  const [settingsScope, setSettingsScope] = useState<SettingsScope>("defaults");
+  const [volumeDraft, setVolumeDraft] = useState<number | null>(null); // while the slider is dragged
+  const volume = volumeDraft ?? playerSettings.settings.volume;
+
+  // SharedObject cloud saves; picking a slot reloads the game with it restored
+  const cloudSaves = useCloudSaves(game._id);
+  const [reloadKey, setReloadKey] = useState(0);
+  const pendingSlotRef = useRef<number | undefined>(undefined);
+  const conflictNotifiedRef = useRef(false);
+
+  // getGame returns null once a game is unpublished or removed
+  useEffect(() => {
+    if (gameDetails === null) {
+      setError("This game is no longer available.");
+      setIsLoading(false);
+    }
+  }, [gameDetails]);
+
+  const favoriteIds = useQuery(api.favorites.getFavoriteIds, currentUser ? { sessionToken } : "skip");
+  const myPlaylists = useQuery(api.playlists.getMyPlaylists, currentUser ? { sessionToken } : "skip");
+  const setFavorite = useMutation(api.favorites.setFavorite);
+  const addGameToPlaylist = useMutation(api.playlists.addGameToPlaylist);
+  const isFavorite = !!favoriteIds?.includes(game._id);
+
+  const handleToggleFavorite = async () => {
+    try {
+      await setFavorite({ sessionToken, gameId: game._id, favorite: !isFavorite });
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update favorites");
+    }
+  };
+
+  const handleAddToPlaylist = async (playlistId: Id<"playlists">) => {
+    try {
+      const result = await addGameToPlaylist({ sessionToken, playlistId, gameId: game._id });
+      const name = myPlaylists?.find((p) => p._id === playlistId)?.name;
+      toast.success(result.added ? `Added to ${name}` : `Already in ${name}`);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to add to playlist");
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(getGameUrl(game._id));
+      toast.success("Game link copied");
+    } catch {
+      toast.error("Couldn't copy the game link");
+    }
+  };
 
   const startSession = useMutation(api.gameSessions.startSession);
   const endSession = useMutation(api.gameSessions.endSession);
   const updateHeartbeat = useMutation(api.gameSessions.updateSessionHeartbeat);
+  const recordRuffleVersion = useMutation(api.gameSessions.recordRuffleVersion);
+
+  // Tag the session with the Ruffle build once both the session and Ruffle are ready
+  const reportRuffleVersion = () => {
+    const loaded = loadedRuffleRef.current;
+    if (!loaded || !sessionIdRef.current) return;
+    recordRuffleVersion({ sessionToken, ruffleVersion: loaded.version, ruffleSource: loaded.source })
+      .catch(console.error);
+  };
+
+  // Input activity reported with heartbeats so idle time earns no XP
+  const { recordActivity, consumeActivityCount } = useInputActivity({
+    enabled: !isLoading && !error,
+    containerRef,
+  });
 
   // Unified input system for touch controls and gamepad
-  const { handleButtonDown, handleButtonUp, focusCanvas } = useGameInput({
+  const { handleButtonDown, handleButtonUp, focusCanvas, getRuffleCanvas } = useGameInput({
     enabled: isMobile && !isLoading && !error,
     ruffleRef: containerRef,
+    onActivity: recordActivity,
   });
 
+  // Screenshots: capture the canvas, upload it, and add it to the player's gallery
+  const generateScreenshotUploadUrl = useMutation(api.screenshots.generateUploadUrl);
+  const saveScreenshot = useMutation(api.screenshots.saveScreenshot);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const handleScreenshot = useCallback(async () => {
+    const canvas = getRuffleCanvas();
+    if (!canvas || !currentUser || isCapturing) return;
+
+    setIsCapturing(true);
+    try {
+      const frame = await captureCanvasFrame(canvas);
+
+      const uploadUrl = await generateScreenshotUploadUrl({ sessionToken });
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": frame.blob.type },
+        body: frame.blob,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed (${response.status})`);
+      }
+      const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+
+      await saveScreenshot({
+        sessionToken,
+        gameId: game._id,
+        sessionId: (sessionIdRef.current as Id<"game_sessions"> | null) ?? undefined,
+        storageId,
+        width: frame.width,
+        height: frame.height,
+      });
+      toast.success("Screenshot saved", { description: "Find it in your gallery under Level & Stats" });
+    } catch (err: any) {
+      toast.error(err.message || "Failed to take screenshot");
+    } finally {
+      setIsCapturing(false);
+    }
+  }, [getRuffleCanvas, currentUser, isCapturing, generateScreenshotUploadUrl, saveScreenshot, sessionToken, game._id]);
+
+  useEffect(() => {
+    if (isLoading || error) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === SCREENSHOT_KEY && !e.repeat) {
+        e.preventDefault();
+        void handleScreenshot();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isLoading, error, handleScreenshot]);
+
+  // Clips: record the canvas (and game audio), then trim and save in the editor
+  const clipRecorder = useClipRecorder();
+  const stopRecording = clipRecorder.stop;
+
+  const handleToggleRecording = () => {
+    if (clipRecorder.status === "recording") {
+      clipRecorder.stop();
+      return;
+    }
+
+    const canvas = getRuffleCanvas();
+    if (!canvas) return;
+
+    try {
+      clipRecorder.start(canvas, {
+        gameId: game._id,
+        sessionId: (sessionIdRef.current as Id<"game_sessions"> | null) ?? undefined,
+      });
+    } catch (err: any) {
+      toast.error(err.message || "Recording isn't supported in this browser");
+    }
+  };
+
+  // The canvas goes away when the game changes or reloads
+  useEffect(() => {
+    return () => stopRecording();
+  }, [game._id, reloadKey, stopRecording]);
+
   // Prevent body scroll on mobile when game is active
   useEffect(() => {
     if (isMobile) {
@@ -55,6 +264,12 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
     }
   }, [isMobile]);
 
+  // Latest guest token, so a token rotation doesn't end and restart the session
+  const sessionTokenRef = useRef(sessionToken);
+  useEffect(() => {
+    sessionTokenRef.current = sessionToken;
+  }, [sessionToken]);
+
   // Initialize game session
   useEffect(() => {
     if (!currentUser?._id || !game._id) return;
@@ -62,10 +277,11 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
     const initSession = async () => {
       try {
         const result = await startSession({
-          userId: currentUser._id,
+          sessionToken: sessionTokenRef.current,
           gameId: game._id,
         });
         sessionIdRef.current = result.sessionId;
+        reportRuffleVersion();
         toast.success("Game session started!", {
           description: "You'll earn XP while playing!",
         });
@@ -79,7 +295,7 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
     // Cleanup: end session when component unmounts
     return () => {
       if (sessionIdRef.current && currentUser._id) {
-        endSession({ userId: currentUser._id, completed: false })
+        endSession({ sessionToken: sessionTokenRef.current, completed: false, inputEvents: consumeActivityCount() })
           .then((result) => {
             toast.success(`Session ended! +${result.expAwarded} XP`, {
               description: `Played for ${result.duration} minutes`,
@@ -102,9 +318,10 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
     // Send heartbeat every 30 seconds
     const heartbeatInterval = setInterval(() => {
       if (currentUser._id) {
-        updateHeartbeat({ userId: currentUser._id })
+        updateHeartbeat({ sessionToken: sessionTokenRef.current, inputEvents: consumeActivityCount() })
           .then((result) => {
             if (result.success) {
+              setEstimatedExp(result.estimatedExp ?? 0);
               console.log(`Heartbeat sent. Estimated XP: ${result.estimatedExp}`);
             }
           })
@@ -118,72 +335,101 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
     };
   }, [currentUser?._id]);
 
+  const isFillMode = scaleMode === "fill";
+  const ruffleConfig = toRuffleConfig(playerSettings.settings, isFillMode);
+  const ruffleConfigKey = JSON.stringify(ruffleConfig);
+
+  /**
+   * Size the player for the stage's aspect ratio, the current viewport and the scale mode
+   * Mobile uses the whole screen minus header/controls; desktop uses the container
+   * width and most of the window height (600px for games without stage dimensions).
+   */
+  const sizePlayer = useCallback((player: HTMLElement) => {
+    const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+    const useVisualViewport = isMobile && isIOS && !!window.visualViewport;
+    const hasStage = !!stageWidth && !!stageHeight;
+    const border = isMobile ? 0 : DESKTOP_BORDER_PX * 2;
+
+    const availableWidth = isMobile
+      ? (useVisualViewport ? window.visualViewport!.width : viewport.width)
+      : (containerRef.current?.clientWidth || DESKTOP_MAX_WIDTH_PX) - border;
+    const availableHeight = isMobile
+      ? (useVisualViewport ? window.visualViewport!.height : viewport.height) - MOBILE_CHROME_HEIGHT_PX
+      : (hasStage ? viewport.height * 0.8 : 600) - border;
+
+    const { width, height } = computePlayerSize({
+      stageWidth,
+      stageHeight,
+      availableWidth,
+      availableHeight,
+      devicePixelRatio: window.devicePixelRatio || 1,
+      mode: scaleMode,
+    });
+
+    player.style.width = `${width}px`;
+    player.style.height = `${height}px`;
+    player.style.display = "block";
+    player.style.margin = "0 auto";
+    player.style.border = isMobile ? "none" : `${DESKTOP_BORDER_PX}px solid #06b6d4`;
+    player.style.borderRadius = isMobile ? "0" : "8px";
+  }, [isMobile, viewport.width, viewport.height, stageWidth, stageHeight, scaleMode]);
+
   // Initialize Ruffle player (only when game changes)
   useEffect(() => {
+    if (!swfUrl || !playerSettings.isLoaded) return;
+    const saves = cloudSaves;
+
     const initRuffle = async () => {
       try {
         setIsLoading(true);
         setError(null);
 
-        // Load Ruffle dynamically from CDN if not already present
-        if (!(window as any).RufflePlayer) {
-          await new Promise<void>((resolve, reject) => {
-            const script = document.createElement("script");
-            script.src = "https://unpkg.com/@ruffle-rs/ruffle";
-            script.async = true;
-            script.onload = () => resolve();
-            script.onerror = () => reject(new Error("Failed to load Ruffle script."));
-            document.body.appendChild(script);
-          });
-        }
+        // Before Ruffle creates its AudioContext, so clips can record game audio
+        installAudioTap();
 
-        const Ruffle = (window as any).RufflePlayer;
-        if (!Ruffle) {
-          throw new Error("RufflePlayer not found on window after loading.");
-        }
+        // Pinned, self-hosted Ruffle (mirror fallback), loaded once per page
+        const loaded = await loadRuffle();
+        loadedRuffleRef.current = loaded;
+        reportRuffleVersion();
 
         // Create Ruffle player properly
-        const ruffleInstance = Ruffle.newest();
-        const player = ruffleInstance.createPlayer();
+        const player = loaded.ruffle.createPlayer();
 
         if (!player) {
           throw new Error("Failed to create Ruffle player element.");
         }
 
         // Initial styling based on current mobile/desktop state
-        if (isMobile) {
-          // Detect iOS for iOS-specific initial sizing
-          const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
-
-          if (isIOS && window.visualViewport) {
-            // iOS: Use visualViewport for accurate initial dimensions
-            const actualWidth = window.visualViewport.width;
-            const actualHeight = window.visualViewport.height;
-            player.style.width = `${actualWidth}px`;
-            player.style.height = `${actualHeight - 120}px`;
-          } else {
-            // Android: Standard viewport units
-            player.style.width = "100vw";
-            player.style.height = `${viewport.height - 120}px`;
-          }
+        player.style.position = "relative";
+        sizePlayer(player);
 
-          player.style.border = "none";
-          player.style.borderRadius = "0";
-          player.style.position = "relative";
-          player.style.display = "block";
-        } else {
-          // Desktop: fixed container
-          player.style.width = "100%";
-          player.style.height = "600px";
-          player.style.border = "2px solid #06b6d4";
-          player.style.borderRadius = "8px";
+        // Restore cloud save data before the SWF reads its SharedObjects
+        try {
+          const restored = await saves.restoreBeforeLoad(swfUrl, pendingSlotRef.current);
+          if (restored) {
+            toast.success(`Cloud save restored (slot ${restored.slot})`, {
+              description: `Saved ${new Date(restored.updatedAt).toLocaleString()}`,
+            });
+          }
+        } catch (err) {
+          console.warn("Failed to restore cloud save:", err);
+        } finally {
+          pendingSlotRef.current = undefined;
         }
 
         // Append and load
         if (containerRef.current) {
           containerRef.current.innerHTML = "";
           containerRef.current.appendChild(player);
-          await player.load(game.swfUrl);
+          // allowScriptAccess lets instrumented SWFs reach the nretro bridge
+          await player.load({
+            url: swfUrl,
+            allowScriptAccess: true,
+            // Player settings; the Fill scale mode overrides the stage scale
+            ...ruffleConfig,
+            ...(backgroundColor ? { backgroundColor } : {}),
+          });
+          player.volume = volume;
         }
 
         // Store player reference for resizing
@@ -204,13 +450,22 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
         rufflePlayerRef.current.remove();
       }
       rufflePlayerRef.current = null;
+
+      // Upload what the game saved this session
+      saves.capture(swfUrl).catch((err) => console.warn("Failed to sync cloud save:", err));
     };
-  }, [game._id]); // Only reinitialize when game changes, NOT on viewport/isMobile change
+  }, [game._id, swfUrl, ruffleConfigKey, playerSettings.isLoaded, reloadKey]); // Only reinitialize when game changes, NOT on viewport/isMobile change
+
+  // Volume applies to the running player without a reload
+  useEffect(() => {
+    if (rufflePlayerRef.current) {
+      rufflePlayerRef.current.volume = volume;
+    }
+  }, [volume, isLoading]);
 
-  // Handle viewport/orientation changes - resize without reloading
+  // Handle viewport/orientation/scale mode changes - resize without reloading
   useEffect(() => {
-    // Only resize if player exists and is mobile
-    if (!rufflePlayerRef.current || !isMobile) return;
+    if (!rufflePlayerRef.current) return;
 
     // Detect iOS devices for iOS-specific handling
     const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
@@ -219,32 +474,11 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
       const player = rufflePlayerRef.current;
       if (!player) return;
 
-      // Dynamically update player dimensions based on current viewport
-      const newHeight = viewport.height - 120; // Subtract header/controls space
+      sizePlayer(player);
 
       if (isIOS) {
-        // iOS-specific: Force layout recalculation to ensure proper rendering
-        // Use visualViewport dimensions if available for pixel-perfect sizing
-        const actualWidth = window.visualViewport?.width || viewport.width;
-        const actualHeight = window.visualViewport?.height || viewport.height;
-        const adjustedHeight = actualHeight - 120;
-
-        // Apply dimensions with important flag to override any conflicts
-        player.style.width = `${actualWidth}px`;
-        player.style.height = `${adjustedHeight}px`;
-        player.style.position = 'relative';
-        player.style.display = 'block';
-
-        // Force browser to recalculate layout
+        // iOS-specific: Force browser to recalculate layout
         void player.offsetHeight;
-
-        console.log(`[iOS] Ruffle player resized: ${actualWidth}x${adjustedHeight} (viewport: ${actualHeight})`);
-      } else {
-        // Android/Desktop: Standard viewport units work fine
-        player.style.width = "100vw";
-        player.style.height = `${newHeight}px`;
-
-        console.log(`Ruffle player resized: ${viewport.width}x${newHeight}`);
       }
     };
 
@@ -260,29 +494,109 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
       return () => clearTimeout(timeoutId);
     }
 
-  }, [isMobile, viewport.width, viewport.height]); // React to viewport changes
+  }, [sizePlayer, isLoading]); // React to viewport, stage and scale mode changes
+
+  // Sync SharedObjects every minute and when the page is hidden or closed
+  const captureSaves = cloudSaves.capture;
+  useEffect(() => {
+    if (!swfUrl || isLoading || error || !cloudSaves.enabled) return;
+
+    const sync = () => {
+      captureSaves(swfUrl)
+        .then((result) => {
+          if (result === "conflict" && !conflictNotifiedRef.current) {
+            conflictNotifiedRef.current = true;
+            toast.warning("A newer cloud save exists", {
+              description: "It was saved on another device. Open Saves to choose which to keep.",
+            });
+          }
+        })
+        .catch((err) => console.warn("Failed to sync cloud save:", err));
+    };
+
+    const interval = setInterval(sync, 60 * 1000);
+    window.addEventListener("pagehide", sync);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", sync);
+    };
+  }, [swfUrl, isLoading, error, cloudSaves.enabled, captureSaves]);
+
+  const handleLoadSlot = (slot: number) => {
+    pendingSlotRef.current = slot;
+    conflictNotifiedRef.current = false;
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleSaveToSlot = async (slot: number) => {
+    if (!swfUrl) return;
+    try {
+      await cloudSaves.saveToSlot(swfUrl, slot);
+      conflictNotifiedRef.current = false;
+      toast.success(`Saved to slot ${slot}`);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save");
+    }
+  };
+
+  const handleChangeSettings = async (changes: Partial<PlayerSettings>) => {
+    try {
+      await playerSettings.updateSettings(settingsScope, changes);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save settings");
+    }
+  };
+
+  const handleCommitVolume = async () => {
+    if (volumeDraft === null) return;
+    await handleChangeSettings({ volume: volumeDraft });
+    setVolumeDraft(null);
+  };
+
+  const handleResetGameSettings = async () => {
+    try {
+      await playerSettings.resetGameSettings();
+      setSettingsScope("defaults");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to reset settings");
+    }
+  };
+
+  const handleDeleteSlot = async (slot: number) => {
+    if (!confirm(`Delete the cloud save in slot ${slot}?`)) return;
+    try {
+      await cloudSaves.deleteSlot(slot);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete save");
+    }
+  };
 
   const handleMarkComplete = async () => {
     if (!currentUser?._id) return;
 
     try {
       const result = await endSession({
-        userId: currentUser._id,
+        sessionToken,
         completed: true, // Completion bonus!
+        inputEvents: consumeActivityCount(),
       });
 
-      toast.success(`Game completed! +${result.expAwarded} XP`, {
+      // The server only pays the bonus for a first completion after real play
+      const heading = result.gameCompleted ? "Game completed!" : "Session saved";
+      toast.success(`${heading} +${result.expAwarded} XP`, {
         description: `Total playtime: ${result.duration} minutes`,
         duration: 5000,
       });
 
       // Restart session to continue playing
       const newSession = await startSession({
-        userId: currentUser._id,
+        sessionToken,
         gameId: game._id,
       });
       sessionIdRef.current = newSession.sessionId;
       setPlayTime(0);
+      setEstimatedExp(0);
     } catch (error: any) {
       toast.error("Failed to mark complete", {
         description: error.message,
@@ -290,6 +604,14 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
     }
   };
 
+  // Instrumented SWFs report scores, achievements, saves and game over
+  useGameBridge({
+    enabled: !!currentUser?._id,
+    gameId: game._id,
+    sessionToken,
+    onGameOver: handleMarkComplete,
+  });
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -334,8 +656,34 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
         </button>
       )}
 
+      {/* Playlist Bar */}
+      {playlist && (
+        <div className={`bg-purple-900/60 border border-purple-500/50 px-4 py-2 flex items-center gap-3 text-sm ${isMobile ? 'pr-16' : 'rounded-t-lg border-b-0'}`}>
+          <span className="text-purple-300 truncate">▶ {playlist.name}</span>
+          <span className="text-gray-400 whitespace-nowrap">
+            {playlist.index + 1} / {playlist.total}
+          </span>
+          <div className="flex gap-2 ml-auto">
+            <button
+              onClick={playlist.onPrevious}
+              disabled={playlist.index === 0}
+              className="px-2 py-1 bg-black/30 text-cyan-300 rounded disabled:opacity-30"
+            >
+              ⏮ Prev
+            </button>
+            <button
+              onClick={playlist.onNext}
+              disabled={playlist.index >= playlist.total - 1}
+              className="px-2 py-1 bg-black/30 text-cyan-300 rounded disabled:opacity-30"
+            >
+              Next ⏭
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Game Header */}
-      <div className={`bg-black/50 border border-cyan-500/50 p-4 ${isMobile ? '' : 'rounded-t-lg'}`}>
+      <div className={`bg-black/50 border border-cyan-500/50 p-4 ${isMobile || playlist ? '' : 'rounded-t-lg'}`}>
         <div className={`flex ${isMobile ? 'flex-col gap-2' : 'justify-between items-center'}`}>
           <div className={`${isMobile ? 'pr-14' : ''}`}>
             <h2 className={`font-bold text-cyan-300 pixel-font ${isMobile ? 'text-lg' : 'text-2xl'}`}>{game.title}</h2>
@@ -361,7 +709,7 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
               <div className="mt-2 text-sm text-gray-400">
                 <div className="text-xs">Session Time</div>
                 <div className="text-lg font-bold text-purple-400">{formatTime(playTime)}</div>
-                <div className="text-xs text-gray-500">~{Math.floor(playTime / 6)} XP earned</div>
+                <div className="text-xs text-gray-500">~{estimatedExp} XP earned</div>
               </div>
             </div>
           )}
@@ -371,7 +719,7 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
                 <span className="text-cyan-300 font-bold">{game.difficulty}</span> difficulty
               </div>
               <div>
-                <span className="text-purple-400 font-bold">{formatTime(playTime)}</span> • ~{Math.floor(playTime / 6)} XP
+                <span className="text-purple-400 font-bold">{formatTime(playTime)}</span> • ~{estimatedExp} XP
               </div>
             </div>
           )}
@@ -396,7 +744,7 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
             </div>
           </div>
         )}
-        <div ref={containerRef} className={`w-full ${isMobile ? 'h-full' : 'min-h-[600px]'}`}
+        <div ref={containerRef} className={`w-full flex items-center justify-center ${isMobile ? 'h-full' : isLoading ? 'min-h-[600px]' : ''}`}
           style={isMobile ? { overflow: 'hidden', position: 'relative' } : {}} />
       </div>
 
@@ -412,11 +760,331 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
               >
                 ✓ Mark Complete (+50 XP Bonus)
               </button>
+              <button
+                onClick={() => setShowLeaderboard((prev) => !prev)}
+                className={`px-4 py-2 rounded transition-colors font-semibold ${
+                  showLeaderboard
+                    ? "bg-cyan-500/30 text-cyan-300"
+                    : "bg-black/30 text-gray-400 hover:text-cyan-300"
+                }`}
+              >
+                🏆 Leaderboard
+              </button>
+              <button
+                onClick={() => setShowReviews((prev) => !prev)}
+                className={`px-4 py-2 rounded transition-colors font-semibold ${
+                  showReviews
+                    ? "bg-cyan-500/30 text-cyan-300"
+                    : "bg-black/30 text-gray-400 hover:text-cyan-300"
+                }`}
+              >
+                ⭐ Reviews
+              </button>
+              {cloudSaves.enabled && (
+                <button
+                  onClick={() => setShowSaves((prev) => !prev)}
+                  className={`px-4 py-2 rounded transition-colors font-semibold ${
+                    showSaves
+                      ? "bg-cyan-500/30 text-cyan-300"
+                      : "bg-black/30 text-gray-400 hover:text-cyan-300"
+                  }`}
+                >
+                  💾 Saves
+                </button>
+              )}
+              <button
+                onClick={() => setShowSettings((prev) => !prev)}
+                className={`px-4 py-2 rounded transition-colors font-semibold ${
+                  showSettings
+                    ? "bg-cyan-500/30 text-cyan-300"
+                    : "bg-black/30 text-gray-400 hover:text-cyan-300"
+                }`}
+              >
+                ⚙️ Settings
+              </button>
+              {currentUser && (
+                <button
+                  onClick={() => void handleToggleFavorite()}
+                  className={`px-3 py-2 rounded transition-colors font-semibold ${
+                    isFavorite ? "bg-yellow-500/20 text-yellow-400" : "bg-black/30 text-gray-400 hover:text-yellow-200"
+                  }`}
+                  aria-label={isFavorite ? "Remove from favorites" : "Add to favorites"}
+                >
+                  ★
+                </button>
+              )}
+              {currentUser && (
+                <button
+                  onClick={() => void handleScreenshot()}
+                  disabled={isLoading || !!error || isCapturing}
+                  className="px-3 py-2 rounded transition-colors font-semibold bg-black/30 text-gray-400 hover:text-cyan-300 disabled:opacity-50"
+                  aria-label="Take screenshot"
+                  title={`Take a screenshot (${SCREENSHOT_KEY})`}
+                >
+                  📷
+                </button>
+              )}
+              {currentUser && isClipRecordingSupported && (
+                <button
+                  onClick={handleToggleRecording}
+                  disabled={isLoading || !!error || clipRecorder.status === "recorded"}
+                  className={`px-3 py-2 rounded transition-colors font-semibold disabled:opacity-50 ${
+                    clipRecorder.status === "recording"
+                      ? "bg-red-600/30 text-red-300 animate-pulse"
+                      : "bg-black/30 text-gray-400 hover:text-red-300"
+                  }`}
+                  title={`Record up to ${MAX_CLIP_SECONDS} seconds of gameplay`}
+                >
+                  {clipRecorder.status === "recording"
+                    ? `⏹ ${Math.floor(clipRecorder.elapsed)}s / ${MAX_CLIP_SECONDS}s`
+                    : "⏺ Record"}
+                </button>
+              )}
+              <button
+                onClick={() => void handleShare()}
+                className="px-3 py-2 rounded transition-colors font-semibold bg-black/30 text-gray-400 hover:text-cyan-300"
+                aria-label="Copy game link"
+                title="Copy a link to this game"
+              >
+                🔗
+              </button>
+              {myPlaylists && myPlaylists.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => void handleAddToPlaylist(e.target.value as Id<"playlists">)}
+                  className="px-2 py-2 bg-black/30 text-gray-300 border border-cyan-500/30 rounded text-sm"
+                  aria-label="Add to playlist"
+                >
+                  <option value="">+ Playlist</option>
+                  {myPlaylists.map((p) => (
+                    <option key={p._id} value={p._id}>{p.name}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={scaleMode}
+                onChange={(e) => setScaleMode(e.target.value as typeof scaleMode)}
+                className="px-2 py-2 bg-black/30 text-gray-300 border border-cyan-500/30 rounded text-sm"
+                title="Scale mode (changing to or from Fill reloads the game)"
+                aria-label="Scale mode"
+              >
+                {SCALE_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
             </div>
             <div className="text-sm text-gray-400">
-              💡 Earn 10 XP per minute played
+              💡 Earn 10 XP per active minute played
             </div>
           </div>
+
+          {/* Clip Editor */}
+          {clipRecorder.recording && (
+            <div className="mt-4 pt-4 border-t border-cyan-500/30">
+              <ClipEditor
+                key={clipRecorder.recording.url}
+                recording={clipRecorder.recording}
+                onDone={clipRecorder.discard}
+              />
+            </div>
+          )}
+
+          {/* Score Leaderboard */}
+          {showLeaderboard && (
+            <div className="mt-4 pt-4 border-t border-cyan-500/30">
+              <GameLeaderboard gameId={game._id} />
+            </div>
+          )}
+
+          {/* Cloud Saves */}
+          {showSaves && (
+            <div className="mt-4 pt-4 border-t border-cyan-500/30 space-y-2">
+              <p className="text-xs text-gray-400">
+                Progress syncs to the active slot every minute and when you leave the game.
+                Loading a slot restarts the game with that save.
+              </p>
+              {SAVE_SLOTS.map((slot) => {
+                const save = cloudSaves.slots?.find((s) => s.slot === slot);
+                return (
+                  <div key={slot} className="flex items-center gap-3 bg-black/20 rounded p-2 text-sm">
+                    <span className={`font-semibold ${slot === cloudSaves.activeSlot ? "text-cyan-300" : "text-gray-300"}`}>
+                      Slot {slot}{slot === cloudSaves.activeSlot && " (active)"}
+                    </span>
+                    <span className="text-xs text-gray-500 flex-1">
+                      {save
+                        ? `${new Date(save.updatedAt).toLocaleString()} • ${(save.size / 1024).toFixed(1)} KB`
+                        : "Empty"}
+                    </span>
+                    <button
+                      onClick={() => handleLoadSlot(slot)}
+                      disabled={!save}
+                      className="text-xs text-cyan-300 hover:text-cyan-100 disabled:opacity-30"
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => void handleSaveToSlot(slot)}
+                      className="text-xs text-green-400 hover:text-green-300"
+                    >
+                      Save here
+                    </button>
+                    {save && (
+                      <button
+                        onClick={() => void handleDeleteSlot(slot)}
+                        className="text-xs text-red-400 hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Player Settings */}
+          {showSettings && (
+            <div className="mt-4 pt-4 border-t border-cyan-500/30 space-y-3 text-sm">
+              <div className="flex items-center gap-2">
+                {(["defaults", "game"] as const).map((scope) => (
+                  <button
+                    key={scope}
+                    onClick={() => setSettingsScope(scope)}
+                    className={`px-3 py-1 rounded text-xs font-semibold ${
+                      settingsScope === scope ? "bg-cyan-500/30 text-cyan-300" : "bg-black/30 text-gray-400 hover:text-cyan-300"
+                    }`}
+                  >
+                    {scope === "defaults" ? "All games" : "This game"}
+                  </button>
+                ))}
+                {playerSettings.hasGameOverride && (
+                  <button
+                    onClick={() => void handleResetGameSettings()}
+                    className="text-xs text-red-400 hover:text-red-300 ml-auto"
+                  >
+                    Reset this game to my defaults
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-400">
+                {settingsScope === "defaults"
+                  ? "Changes apply to every game without its own settings."
+                  : "Changes apply to this game only."}
+                {" "}
+                {currentUser && !currentUser.isAnonymous
+                  ? "Saved to your account."
+                  : "Saved in this browser."}
+                {" "}Changes other than volume restart the game.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-gray-300">
+                  Volume ({Math.round(volume * 100)}%)
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={volume}
+                    onChange={(e) => setVolumeDraft(Number(e.target.value))}
+                    onPointerUp={() => void handleCommitVolume()}
+                    onKeyUp={() => void handleCommitVolume()}
+                    className="accent-cyan-500"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-300">
+                  Quality
+                  <select
+                    value={playerSettings.settings.quality}
+                    onChange={(e) => void handleChangeSettings({ quality: e.target.value as PlayerSettings["quality"] })}
+                    className="px-2 py-1 bg-black/30 border border-cyan-500/30 rounded"
+                  >
+                    {QUALITY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-300">
+                  Stage scale
+                  <select
+                    value={playerSettings.settings.scale}
+                    onChange={(e) => void handleChangeSettings({ scale: e.target.value as PlayerSettings["scale"] })}
+                    disabled={isFillMode}
+                    title={isFillMode ? "The Fill scale mode always stretches the stage" : undefined}
+                    className="px-2 py-1 bg-black/30 border border-cyan-500/30 rounded disabled:opacity-50"
+                  >
+                    {STAGE_SCALE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-300">
+                  Letterbox
+                  <select
+                    value={playerSettings.settings.letterbox}
+                    onChange={(e) => void handleChangeSettings({ letterbox: e.target.value as PlayerSettings["letterbox"] })}
+                    className="px-2 py-1 bg-black/30 border border-cyan-500/30 rounded"
+                  >
+                    {LETTERBOX_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-300">
+                  Frame rate
+                  <select
+                    value={playerSettings.settings.frameRate ?? ""}
+                    onChange={(e) => void handleChangeSettings({ frameRate: e.target.value ? Number(e.target.value) : null })}
+                    className="px-2 py-1 bg-black/30 border border-cyan-500/30 rounded"
+                  >
+                    {FRAME_RATE_OPTIONS.map((option) => (
+                      <option key={option.label} value={option.value ?? ""}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-300">
+                  Autoplay
+                  <select
+                    value={playerSettings.settings.autoplay}
+                    onChange={(e) => void handleChangeSettings({ autoplay: e.target.value as PlayerSettings["autoplay"] })}
+                    className="px-2 py-1 bg-black/30 border border-cyan-500/30 rounded"
+                  >
+                    {AUTOPLAY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={playerSettings.settings.forceScale}
+                    onChange={(e) => void handleChangeSettings({ forceScale: e.target.checked })}
+                    className="accent-cyan-500"
+                  />
+                  Keep my stage scale (ignore the game's own)
+                </label>
+                <label className="flex items-center gap-2 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={playerSettings.settings.unmuteOverlay === "visible"}
+                    onChange={(e) => void handleChangeSettings({ unmuteOverlay: e.target.checked ? "visible" : "hidden" })}
+                    className="accent-cyan-500"
+                  />
+                  Show the "click to unmute" overlay
+                </label>
+              </div>
+            </div>
+          )}
+
+          {/* Ratings & Reviews */}
+          {showReviews && (
+            <div className="mt-4 pt-4 border-t border-cyan-500/30">
+              <GameReviews
+                gameId={game._id}
+                ratingAverage={gameDetails?.ratingAverage}
+                ratingCount={gameDetails?.ratingCount}
+              />
+            </div>
+          )}
         </div>
       )}
 
@@ -430,8 +1098,28 @@ export function GamePlayer({ game, onClose }: GamePlayerProps) {
           >
             ✓ Complete
           </button>
+          <button
+            onClick={() => {
+              const index = SCALE_MODES.findIndex((mode) => mode.value === scaleMode);
+              setScaleMode(SCALE_MODES[(index + 1) % SCALE_MODES.length].value);
+            }}
+            className="px-3 py-2 bg-black/30 text-cyan-300 rounded text-sm"
+            aria-label="Change scale mode"
+          >
+            ⤢ {SCALE_MODES.find((mode) => mode.value === scaleMode)?.label}
+          </button>
+          {currentUser && (
+            <button
+              onClick={() => void handleScreenshot()}
+              disabled={isLoading || !!error || isCapturing}
+              className="px-3 py-2 bg-black/30 text-cyan-300 rounded text-sm disabled:opacity-50"
+              aria-label="Take screenshot"
+            >
+              📷
+            </button>
+          )}
           <div className="text-xs text-gray-400">
-            💡 10 XP/min
+            💡 10 XP/active min
           </div>
         </div>
       )}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../contexts/UserContext";
+import { showError, showSuccess } from "../utils/notifications";
+
+const MAX_REVIEW_LENGTH = 1000;
+
+interface GameReviewsProps {
+  gameId: Id<"games">;
+  ratingAverage?: number;
+  ratingCount?: number;
+}
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="text-yellow-400" aria-label={`${rating} out of 5 stars`}>
+      {"★".repeat(rating)}
+      <span className="text-gray-600">{"★".repeat(5 - rating)}</span>
+    </span>
+  );
+}
+
+export function GameReviews({ gameId, ratingAverage, ratingCount }: GameReviewsProps) {
+  const { currentUser, sessionToken } = useUser();
+  const isAdmin = currentUser?.role === "admin" && !currentUser.isAnonymous;
+
+  const data = useQuery(api.gameReviews.getGameReviews, { gameId, sessionToken });
+  const submitReview = useMutation(api.gameReviews.submitReview);
+  const deleteReview = useMutation(api.gameReviews.deleteReview);
+
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Start the form from the caller's existing review
+  const myReview = data?.myReview;
+  useEffect(() => {
+    setRating(myReview?.rating ?? 0);
+    setText(myReview?.text ?? "");
+  }, [myReview?._id, myReview?.rating, myReview?.text]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) return;
+
+    setSaving(true);
+    try {
+      await submitReview({ sessionToken, gameId, rating, text: text.trim() || undefined });
+      showSuccess(myReview ? "Review updated" : "Review posted");
+    } catch (error: any) {
+      showError("Failed to save review", error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (reviewId: Id<"game_reviews">) => {
+    try {
+      await deleteReview({ sessionToken, reviewId });
+      showSuccess("Review deleted");
+    } catch (error: any) {
+      showError("Failed to delete review", error.message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Aggregate Rating */}
+      <div className="flex items-center gap-3">
+        {ratingCount ? (
+          <>
+            <span className="text-2xl font-bold text-yellow-400">{ratingAverage?.toFixed(1)}</span>
+            <Stars rating={Math.round(ratingAverage ?? 0)} />
+            <span className="text-sm text-gray-400">
+              {ratingCount} {ratingCount === 1 ? "rating" : "ratings"}
+            </span>
+          </>
+        ) : (
+          <span className="text-sm text-gray-400">No ratings yet</span>
+        )}
+      </div>
+
+      {/* Review Form */}
+      {data?.canReview ? (
+        <form onSubmit={(e) => void handleSubmit(e)} className="bg-black/20 rounded p-3 space-y-2">
+          <div className="flex gap-1">
+            {[1, 2, 3, 4, 5].map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setRating(star)}
+                className={`text-2xl transition-colors ${star <= rating ? "text-yellow-400" : "text-gray-600 hover:text-yellow-200"}`}
+                aria-label={`${star} star${star === 1 ? "" : "s"}`}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+          <textarea
+            placeholder="What did you think? (optional)"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_REVIEW_LENGTH}
+            rows={2}
+            className="w-full px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 placeholder-gray-500 focus:border-cyan-400 focus:outline-none resize-none"
+          />
+          <button
+            type="submit"
+            disabled={saving || rating === 0}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 text-white rounded text-sm font-semibold transition-colors"
+          >
+            {saving ? "Saving..." : myReview ? "Update Review" : "Post Review"}
+          </button>
+        </form>
+      ) : (
+        currentUser && data && (
+          <p className="text-xs text-gray-500">Complete a session of this game to leave a review.</p>
+        )
+      )}
+
+      {/* Review List */}
+      {data === undefined ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+        </div>
+      ) : data.reviews.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">No reviews yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {data.reviews.map((review) => (
+            <div key={review._id} className="bg-black/20 rounded p-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-cyan-100">{review.username}</span>
+                <Stars rating={review.rating} />
+                <span className="text-xs text-gray-500 ml-auto">
+                  {new Date(review.updatedAt).toLocaleDateString()}
+                </span>
+                {(isAdmin || review.userId === currentUser?._id) && (
+                  <button
+                    onClick={() => void handleDelete(review._id)}
+                    className="text-xs text-red-400 hover:text-red-300"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              {review.text && <p className="text-sm text-gray-300 mt-1">{review.text}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
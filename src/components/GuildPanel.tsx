@@ -1,11 +1,14 @@
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { useUser } from "../contexts/UserContext";
 import { showSuccess, showError } from "../utils/notifications";
+import { splitGameLinks } from "../utils/gameLinks";
+import { ClipVideo } from "./GameClips";
 
 export function GuildPanel() {
-  const { currentUser } = useUser();
+  const { currentUser, sessionToken } = useUser();
 
   const guild = useQuery(
     api.guilds.getUserGuild,
@@ -37,7 +40,7 @@ export function GuildPanel() {
 
     try {
       await createGuild({
-        userId: currentUser._id,
+        sessionToken,
         name: newGuildName,
         description: newGuildDescription || "A new guild!",
         isPrivate: false,
@@ -55,7 +58,7 @@ export function GuildPanel() {
     if (!currentUser?._id) return;
 
     try {
-      await joinGuild({ userId: currentUser._id, guildId });
+      await joinGuild({ sessionToken, guildId });
       showSuccess("Successfully joined guild!", "Welcome to your new community");
     } catch (err: any) {
       showError(err.message || "Failed to join guild", "You may already be in a guild");
@@ -67,7 +70,7 @@ export function GuildPanel() {
 
     if (confirm("Are you sure you want to leave this guild?")) {
       try {
-        await leaveGuild({ userId: currentUser._id });
+        await leaveGuild({ sessionToken });
         showSuccess("Left guild", "You have successfully left the guild");
       } catch (err: any) {
         showError(err.message || "Failed to leave guild", "Please try again");
@@ -82,7 +85,7 @@ export function GuildPanel() {
     try {
       await sendMessage({
         guildId: guild._id,
-        userId: currentUser._id,
+        sessionToken,
         content: messageText,
       });
       setMessageText("");
@@ -150,7 +153,61 @@ export function GuildPanel() {
                         {new Date(message.timestamp).toLocaleTimeString()}
                       </span>
                     </div>
-                    <p className="text-gray-200 text-sm">{message.content}</p>
+                    {message.content && (
+                      <p className="text-gray-200 text-sm break-words">
+                        {splitGameLinks(message.content).map((part, index) =>
+                          part.gameId ? (
+                            <Link
+                              key={index}
+                              to={`/game/${part.gameId}`}
+                              className="text-cyan-300 underline hover:text-cyan-100"
+                            >
+                              {part.text}
+                            </Link>
+                          ) : (
+                            part.text
+                          )
+                        )}
+                      </p>
+                    )}
+                    {message.screenshot?.url ? (
+                      <div className="mt-1">
+                        <a href={message.screenshot.url} target="_blank" rel="noreferrer">
+                          <img
+                            src={message.screenshot.url}
+                            alt={`${message.screenshot.gameTitle} screenshot`}
+                            className="max-h-48 rounded border border-cyan-500/30"
+                            loading="lazy"
+                          />
+                        </a>
+                        <Link
+                          to={`/game/${message.screenshot.gameId}`}
+                          className="text-xs text-cyan-300 underline hover:text-cyan-100"
+                        >
+                          📷 {message.screenshot.gameTitle}
+                        </Link>
+                      </div>
+                    ) : message.screenshotId && (
+                      <p className="text-xs text-gray-500 italic">Screenshot removed</p>
+                    )}
+                    {message.clip?.url ? (
+                      <div className="mt-1">
+                        <ClipVideo
+                          url={message.clip.url}
+                          trimStart={message.clip.trimStart}
+                          trimEnd={message.clip.trimEnd}
+                          className="max-h-48 rounded border border-cyan-500/30"
+                        />
+                        <Link
+                          to={`/game/${message.clip.gameId}`}
+                          className="text-xs text-cyan-300 underline hover:text-cyan-100"
+                        >
+                          🎬 {message.clip.title || message.clip.gameTitle}
+                        </Link>
+                      </div>
+                    ) : message.clipId && (
+                      <p className="text-xs text-gray-500 italic">Clip removed</p>
+                    )}
                   </div>
                 ))}
                 {guildMessages?.length === 0 && (
@@ -1,15 +1,36 @@
-import { useQuery } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
 import { useUser } from "../contexts/UserContext";
+import { showError, showSuccess } from "../utils/notifications";
+import { ScreenshotGallery } from "./ScreenshotGallery";
 
 export function LevelPanel() {
-  const { currentUser } = useUser();
+  const { currentUser, sessionToken } = useUser();
 
   const profile = useQuery(
     api.users.getProfile,
-    currentUser?.userId ? { userId: currentUser.userId } : "skip"
+    currentUser ? { sessionToken } : "skip"
   );
   const leaderboard = useQuery(api.users.getLeaderboard, { limit: 10 });
+  const achievements = useQuery(
+    api.achievements.getAchievements,
+    currentUser ? { sessionToken } : "skip"
+  );
+  const quests = useQuery(
+    api.quests.getQuests,
+    currentUser ? { sessionToken } : "skip"
+  );
+  const claimQuestReward = useMutation(api.quests.claimQuestReward);
+
+  const handleClaimQuest = async (userQuestId: Id<"user_quests">, questName: string) => {
+    try {
+      const result = await claimQuestReward({ sessionToken, userQuestId });
+      showSuccess(`Quest complete: ${questName}`, `+${result.expAwarded} XP`);
+    } catch (error: any) {
+      showError("Failed to claim reward", error.message);
+    }
+  };
 
   if (!profile || !currentUser) {
     return (
@@ -120,51 +141,101 @@ export function LevelPanel() {
           </div>
         </div>
 
+        {/* Quests */}
+        <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4">
+          <h3 className="text-lg font-bold text-cyan-300 mb-4 pixel-font">QUESTS</h3>
+          {quests && quests.length > 0 ? (
+            <div className="space-y-2">
+              {quests.map((quest) => (
+                <div
+                  key={quest._id}
+                  className={`p-3 rounded ${
+                    quest.claimed
+                      ? "bg-gray-500/20 border border-gray-500/50 opacity-60"
+                      : quest.completed
+                      ? "bg-green-500/20 border border-green-500/50"
+                      : "bg-black/20 border border-cyan-500/20"
+                  }`}
+                >
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <div className="text-sm font-semibold text-cyan-100">
+                        {quest.name}
+                        <span className="ml-2 text-xs px-2 py-0.5 bg-purple-500/30 text-purple-300 rounded">
+                          {quest.period === "daily" ? "Daily" : "Weekly"}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-400">{quest.description}</div>
+                    </div>
+                    <div className="text-xs font-bold text-purple-400 whitespace-nowrap">
+                      +{quest.expReward} XP
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <div className="flex-1 bg-gray-700 rounded-full h-2">
+                      <div
+                        className="bg-gradient-to-r from-cyan-400 to-purple-400 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${Math.min(100, (quest.progress / quest.target) * 100)}%` }}
+                      ></div>
+                    </div>
+                    <div className="text-xs text-gray-400 whitespace-nowrap">
+                      {quest.progress}/{quest.target}
+                    </div>
+                    {quest.completed && !quest.claimed && quest.userQuestId && (
+                      <button
+                        onClick={() => void handleClaimQuest(quest.userQuestId!, quest.name)}
+                        className="px-2 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-xs font-semibold transition-colors"
+                      >
+                        Claim
+                      </button>
+                    )}
+                    {quest.claimed && (
+                      <div className="text-xs text-green-400">✓ Claimed</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400 text-center">No quests available right now.</p>
+          )}
+        </div>
+
         {/* Achievements */}
         <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4">
           <h3 className="text-lg font-bold text-cyan-300 mb-4 pixel-font">ACHIEVEMENTS</h3>
-          <div className="grid grid-cols-2 gap-2">
-            <div className={`p-3 rounded text-center ${
-              levelInfo.level >= 5 ? "bg-green-500/20 border border-green-500/50" : "bg-gray-500/20 border border-gray-500/50"
-            }`}>
-              <div className="text-2xl mb-1">🎮</div>
-              <div className="text-xs text-gray-300 font-semibold">Gamer</div>
-              <div className="text-xs text-gray-400">Reach Level 5</div>
-              {levelInfo.level >= 5 && (
-                <div className="text-xs text-green-400 mt-1">✓ Unlocked</div>
-              )}
-            </div>
-            <div className={`p-3 rounded text-center ${
-              profile.totalPlaytime >= 60 ? "bg-green-500/20 border border-green-500/50" : "bg-gray-500/20 border border-gray-500/50"
-            }`}>
-              <div className="text-2xl mb-1">⏰</div>
-              <div className="text-xs text-gray-300 font-semibold">Dedicated</div>
-              <div className="text-xs text-gray-400">Play 1 Hour</div>
-              {profile.totalPlaytime >= 60 && (
-                <div className="text-xs text-green-400 mt-1">✓ Unlocked</div>
-              )}
-            </div>
-            <div className={`p-3 rounded text-center ${
-              levelInfo.level >= 10 ? "bg-green-500/20 border border-green-500/50" : "bg-gray-500/20 border border-gray-500/50"
-            }`}>
-              <div className="text-2xl mb-1">⭐</div>
-              <div className="text-xs text-gray-300 font-semibold">Pro Gamer</div>
-              <div className="text-xs text-gray-400">Reach Level 10</div>
-              {levelInfo.level >= 10 && (
-                <div className="text-xs text-green-400 mt-1">✓ Unlocked</div>
-              )}
-            </div>
-            <div className={`p-3 rounded text-center ${
-              profile.exp >= 1000 ? "bg-green-500/20 border border-green-500/50" : "bg-gray-500/20 border border-gray-500/50"
-            }`}>
-              <div className="text-2xl mb-1">💪</div>
-              <div className="text-xs text-gray-300 font-semibold">Experienced</div>
-              <div className="text-xs text-gray-400">Earn 1000 XP</div>
-              {profile.exp >= 1000 && (
-                <div className="text-xs text-green-400 mt-1">✓ Unlocked</div>
-              )}
+          {achievements && achievements.length > 0 ? (
+            <div className="grid grid-cols-2 gap-2">
+              {achievements.map((achievement) => (
+                <div
+                  key={achievement._id}
+                  className={`p-3 rounded text-center ${
+                    achievement.unlockedAt !== null
+                      ? "bg-green-500/20 border border-green-500/50"
+                      : "bg-gray-500/20 border border-gray-500/50 opacity-60"
+                  }`}
+                >
+                  <div className="text-2xl mb-1">
+                    {achievement.unlockedAt !== null ? achievement.icon : "🔒"}
+                  </div>
+                  <div className="text-xs text-gray-300 font-semibold">{achievement.name}</div>
+                  <div className="text-xs text-gray-400">{achievement.description}</div>
+                  <div className="text-xs text-purple-400 mt-1">+{achievement.expReward} XP</div>
+                  {achievement.unlockedAt !== null && (
+                    <div className="text-xs text-green-400 mt-1">✓ Unlocked</div>
+                  )}
+                </div>
+              ))}
             </div>
-          </div>
+          ) : (
+            <p className="text-sm text-gray-400 text-center">No achievements available yet.</p>
+          )}
+        </div>
+
+        {/* Screenshots */}
+        <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4">
+          <h3 className="text-lg font-bold text-cyan-300 mb-4 pixel-font">SCREENSHOTS</h3>
+          <ScreenshotGallery />
         </div>
       </div>
     </div>
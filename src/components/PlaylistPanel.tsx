@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../contexts/UserContext";
+import { showError, showSuccess } from "../utils/notifications";
+
+const MAX_NAME_LENGTH = 50;
+
+interface PlaylistPanelProps {
+  onPlayPlaylist: (playlistId: Id<"playlists">, index?: number) => void;
+}
+
+/**
+ * Link that opens a playlist in the player
+ */
+function getPlaylistShareUrl(playlistId: Id<"playlists">) {
+  return `${window.location.origin}/main?playlist=${playlistId}`;
+}
+
+function PlaylistEditor({
+  playlistId,
+  onPlayPlaylist,
+}: {
+  playlistId: Id<"playlists">;
+  onPlayPlaylist: PlaylistPanelProps["onPlayPlaylist"];
+}) {
+  const { sessionToken } = useUser();
+  const playlist = useQuery(api.playlists.getPlaylist, { playlistId, sessionToken });
+  const reorderPlaylist = useMutation(api.playlists.reorderPlaylist);
+  const removeGame = useMutation(api.playlists.removeGameFromPlaylist);
+
+  if (playlist === undefined) {
+    return (
+      <div className="flex justify-center py-2">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  if (!playlist) return null;
+
+  // Reorder the stored list (it may include games hidden from the player)
+  const handleMove = async (gameId: Id<"games">, offset: number) => {
+    const gameIds = [...playlist.gameIds];
+    const from = gameIds.indexOf(gameId);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= gameIds.length) return;
+
+    [gameIds[from], gameIds[to]] = [gameIds[to], gameIds[from]];
+    try {
+      await reorderPlaylist({ sessionToken, playlistId, gameIds });
+    } catch (error: any) {
+      showError("Failed to reorder playlist", error.message);
+    }
+  };
+
+  const handleRemove = async (gameId: Id<"games">) => {
+    try {
+      await removeGame({ sessionToken, playlistId, gameId });
+    } catch (error: any) {
+      showError("Failed to remove game", error.message);
+    }
+  };
+
+  if (playlist.games.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 py-2">
+        No games yet. Add games from the player's "Add to playlist" menu.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-1 mt-2">
+      {playlist.games.map((game, index) => (
+        <li key={game._id} className="flex items-center gap-2 text-sm">
+          <span className="text-gray-500 w-5 text-right">{index + 1}.</span>
+          <button
+            onClick={() => onPlayPlaylist(playlistId, index)}
+            className="flex-1 min-w-0 truncate text-left text-cyan-100 hover:text-cyan-300"
+          >
+            {game.title}
+          </button>
+          <button
+            onClick={() => void handleMove(game._id, -1)}
+            disabled={index === 0}
+            className="text-gray-400 hover:text-cyan-300 disabled:opacity-30"
+            aria-label="Move up"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => void handleMove(game._id, 1)}
+            disabled={index === playlist.games.length - 1}
+            className="text-gray-400 hover:text-cyan-300 disabled:opacity-30"
+            aria-label="Move down"
+          >
+            ↓
+          </button>
+          <button
+            onClick={() => void handleRemove(game._id)}
+            className="text-red-400 hover:text-red-300"
+            aria-label="Remove from playlist"
+          >
+            ×
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function PlaylistPanel({ onPlayPlaylist }: PlaylistPanelProps) {
+  const { currentUser, sessionToken } = useUser();
+  const playlists = useQuery(api.playlists.getMyPlaylists, currentUser ? { sessionToken } : "skip");
+  const createPlaylist = useMutation(api.playlists.createPlaylist);
+  const updatePlaylist = useMutation(api.playlists.updatePlaylist);
+  const deletePlaylist = useMutation(api.playlists.deletePlaylist);
+
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [expandedId, setExpandedId] = useState<Id<"playlists"> | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      const result = await createPlaylist({ sessionToken, name: name.trim(), isPublic: false });
+      setName("");
+      setExpandedId(result.playlistId);
+    } catch (error: any) {
+      showError("Failed to create playlist", error.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleTogglePublic = async (playlistId: Id<"playlists">, isPublic: boolean) => {
+    try {
+      await updatePlaylist({ sessionToken, playlistId, isPublic });
+    } catch (error: any) {
+      showError("Failed to update playlist", error.message);
+    }
+  };
+
+  const handleShare = async (playlistId: Id<"playlists">) => {
+    try {
+      await navigator.clipboard.writeText(getPlaylistShareUrl(playlistId));
+      showSuccess("Link copied", "Anyone with the link can play this playlist");
+    } catch {
+      showError("Couldn't copy link", getPlaylistShareUrl(playlistId));
+    }
+  };
+
+  const handleDelete = async (playlistId: Id<"playlists">, playlistName: string) => {
+    if (!confirm(`Delete the playlist "${playlistName}"?`)) return;
+
+    try {
+      await deletePlaylist({ sessionToken, playlistId });
+      showSuccess("Playlist deleted");
+    } catch (error: any) {
+      showError("Failed to delete playlist", error.message);
+    }
+  };
+
+  if (!currentUser) {
+    return <p className="text-sm text-gray-400 text-center py-8">Log in to create playlists.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={(e) => void handleCreate(e)} className="flex gap-2">
+        <input
+          type="text"
+          placeholder="New playlist name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_NAME_LENGTH}
+          className="flex-1 min-w-0 px-3 py-2 bg-black/50 border border-cyan-500/50 rounded text-cyan-100 placeholder-gray-400 focus:border-cyan-400 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={creating || !name.trim()}
+          className="px-3 py-2 bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 text-white rounded text-sm font-semibold transition-colors"
+        >
+          Create
+        </button>
+      </form>
+
+      {playlists === undefined ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+        </div>
+      ) : playlists.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">No playlists yet.</p>
+      ) : (
+        playlists.map((playlist) => (
+          <div key={playlist._id} className="bg-black/40 border border-cyan-500/30 rounded-lg p-3">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setExpandedId(expandedId === playlist._id ? null : playlist._id)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <div className="font-semibold text-cyan-100 truncate">{playlist.name}</div>
+                <div className="text-xs text-gray-400">
+                  {playlist.gameIds.length} {playlist.gameIds.length === 1 ? "game" : "games"} •{" "}
+                  {playlist.isPublic ? "Public" : "Private"}
+                </div>
+              </button>
+              <button
+                onClick={() => onPlayPlaylist(playlist._id)}
+                disabled={playlist.gameIds.length === 0}
+                className="px-3 py-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded text-sm font-semibold transition-colors"
+              >
+                ▶ Play
+              </button>
+            </div>
+
+            {expandedId === playlist._id && (
+              <>
+                <PlaylistEditor playlistId={playlist._id} onPlayPlaylist={onPlayPlaylist} />
+                <div className="flex flex-wrap gap-2 mt-3 text-xs">
+                  <label className="flex items-center text-cyan-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={playlist.isPublic}
+                      onChange={(e) => void handleTogglePublic(playlist._id, e.target.checked)}
+                      className="mr-1 accent-cyan-400"
+                    />
+                    Public
+                  </label>
+                  {playlist.isPublic && (
+                    <button
+                      onClick={() => void handleShare(playlist._id)}
+                      className="text-cyan-300 hover:text-cyan-100"
+                    >
+                      🔗 Copy link
+                    </button>
+                  )}
+                  <button
+                    onClick={() => void handleDelete(playlist._id, playlist.name)}
+                    className="text-red-400 hover:text-red-300 ml-auto"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
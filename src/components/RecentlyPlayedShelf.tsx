@@ -0,0 +1,85 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useUser } from "../contexts/UserContext";
+
+interface RecentlyPlayedShelfProps {
+  onSelectGame: (game: any) => void;
+  limit?: number;
+  layout?: "row" | "grid";
+}
+
+function formatLastPlayed(timestamp: number) {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+function formatPlaytime(totalMinutes: number) {
+  return totalMinutes >= 60
+    ? `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`
+    : `${totalMinutes}m`;
+}
+
+export function RecentlyPlayedShelf({ onSelectGame, limit, layout = "row" }: RecentlyPlayedShelfProps) {
+  const { currentUser, sessionToken } = useUser();
+  const recent = useQuery(
+    api.gameSessions.getRecentlyPlayed,
+    currentUser ? { sessionToken, limit } : "skip"
+  );
+
+  if (!recent || recent.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-cyan-300 mb-2">
+        {layout === "grid" ? "Continue Playing" : "Recently Played"}
+      </h3>
+      <div
+        className={
+          layout === "grid"
+            ? "grid grid-cols-2 md:grid-cols-4 gap-3"
+            : "flex gap-2 overflow-x-auto pb-1"
+        }
+      >
+        {recent.map(({ game, lastPlayedAt, totalMinutes }) => (
+          <button
+            key={game._id}
+            onClick={() => onSelectGame(game)}
+            className={`bg-black/40 border border-cyan-500/30 rounded-lg p-2 text-left hover:border-cyan-400 hover:bg-black/60 transition-all group ${
+              layout === "grid" ? "" : "flex-shrink-0 w-24"
+            }`}
+            title={`${game.title} • ${formatPlaytime(totalMinutes)} played`}
+          >
+            {game.thumbnail ? (
+              <img
+                src={game.thumbnail}
+                alt={game.title}
+                className={`w-full rounded object-cover ${layout === "grid" ? "h-24" : "h-14"}`}
+              />
+            ) : (
+              <div
+                className={`w-full bg-gradient-to-br from-purple-500 to-cyan-500 rounded flex items-center justify-center text-white font-bold ${
+                  layout === "grid" ? "h-24 text-2xl" : "h-14"
+                }`}
+              >
+                {game.title.charAt(0)}
+              </div>
+            )}
+            <div className="text-xs font-semibold text-cyan-100 truncate mt-1 group-hover:text-cyan-300">
+              {game.title}
+            </div>
+            <div className="text-[10px] text-gray-400 truncate">
+              {formatLastPlayed(lastPlayedAt)}
+              {layout === "grid" && ` • ${formatPlaytime(totalMinutes)} played`}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
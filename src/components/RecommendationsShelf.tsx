@@ -0,0 +1,43 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useUser } from "../contexts/UserContext";
+
+interface RecommendationsShelfProps {
+  onSelectGame: (game: any) => void;
+  limit?: number;
+}
+
+export function RecommendationsShelf({ onSelectGame, limit }: RecommendationsShelfProps) {
+  const { sessionToken } = useUser();
+  const recommendations = useQuery(api.recommendations.getRecommendations, { sessionToken, limit });
+
+  if (!recommendations || recommendations.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-cyan-300 mb-2">Recommended for You</h3>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {recommendations.map(({ game, reason }) => (
+          <button
+            key={game._id}
+            onClick={() => onSelectGame(game)}
+            className="flex-shrink-0 w-28 bg-black/40 border border-purple-500/30 rounded-lg p-2 text-left hover:border-purple-400 hover:bg-black/60 transition-all group"
+            title={`${game.title} • ${reason}`}
+          >
+            {game.thumbnail ? (
+              <img src={game.thumbnail} alt={game.title} className="w-full h-14 rounded object-cover" />
+            ) : (
+              <div className="w-full h-14 bg-gradient-to-br from-purple-500 to-cyan-500 rounded flex items-center justify-center text-white font-bold">
+                {game.title.charAt(0)}
+              </div>
+            )}
+            <div className="text-xs font-semibold text-cyan-100 truncate mt-1 group-hover:text-cyan-300">
+              {game.title}
+            </div>
+            <div className="text-[10px] text-purple-300 line-clamp-2">{reason}</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useMutation, useQuery } from "convex/react";
+import { Link } from "react-router-dom";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useUser } from "../contexts/UserContext";
+import { showError, showSuccess } from "../utils/notifications";
+
+/**
+ * The player's screenshots, with sharing to their guild chat
+ */
+export function ScreenshotGallery() {
+  const { currentUser, sessionToken } = useUser();
+
+  const screenshots = useQuery(
+    api.screenshots.getMyScreenshots,
+    currentUser ? { sessionToken } : "skip"
+  );
+  const deleteScreenshot = useMutation(api.screenshots.deleteScreenshot);
+  const shareScreenshot = useMutation(api.guildMessages.shareScreenshot);
+
+  const handleShare = async (screenshotId: Id<"screenshots">) => {
+    const caption = prompt("Add a caption (optional)");
+    if (caption === null) return;
+
+    try {
+      await shareScreenshot({ sessionToken, screenshotId, content: caption });
+      showSuccess("Shared to guild chat");
+    } catch (error: any) {
+      showError("Failed to share screenshot", error.message);
+    }
+  };
+
+  const handleDelete = async (screenshotId: Id<"screenshots">) => {
+    if (!confirm("Delete this screenshot?")) return;
+
+    try {
+      await deleteScreenshot({ sessionToken, screenshotId });
+    } catch (error: any) {
+      showError("Failed to delete screenshot", error.message);
+    }
+  };
+
+  if (!screenshots || screenshots.length === 0) {
+    return (
+      <p className="text-sm text-gray-400 text-center">
+        No screenshots yet. Press 📷 (or F9) while playing to take one.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {screenshots.map((screenshot) => (
+        <div key={screenshot._id} className="bg-black/20 border border-cyan-500/20 rounded overflow-hidden">
+          {screenshot.url && (
+            <a href={screenshot.url} target="_blank" rel="noreferrer">
+              <img
+                src={screenshot.url}
+                alt={`${screenshot.gameTitle} screenshot`}
+                className="w-full aspect-video object-contain bg-black"
+                loading="lazy"
+              />
+            </a>
+          )}
+          <div className="p-2">
+            <Link
+              to={`/game/${screenshot.gameId}`}
+              className="block text-xs font-semibold text-cyan-100 truncate hover:text-cyan-300"
+            >
+              {screenshot.gameTitle}
+            </Link>
+            <div className="text-xs text-gray-500">{new Date(screenshot.takenAt).toLocaleString()}</div>
+            <div className="flex gap-3 mt-1">
+              {currentUser?.guildId && (
+                <button
+                  onClick={() => void handleShare(screenshot._id)}
+                  className="text-xs text-cyan-300 hover:text-cyan-100"
+                >
+                  Share to guild
+                </button>
+              )}
+              <button
+                onClick={() => void handleDelete(screenshot._id)}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { useUser as useClerkUser } from "@clerk/clerk-react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
+import { showAction, showError, showSuccess } from "../utils/notifications";
 
 interface User {
   _id: Id<"users">;
@@ -17,27 +18,41 @@ interface User {
   createdAt: number;
   guildId?: Id<"guilds">;
   isAnonymous?: boolean;
+  role?: "user" | "admin";
 }
 
 interface UserContextType {
   currentUser: User | null;
   isLoading: boolean;
   isClerkAuthenticated: boolean;
+  sessionToken: string | undefined; // Guest session token for mutations (undefined for Clerk users)
   login: (username: string) => Promise<void>;
   logout: () => void;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
+const SESSION_TOKEN_KEY = "nretrocade_sessionToken";
+// Shared by every tab, so only one of them rotates the guest token per day
+const SESSION_ROTATED_AT_KEY = "nretrocade_sessionRotatedAt";
+const SESSION_ROTATE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 export function UserProvider({ children }: { children: ReactNode }) {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [storedUserId, setStoredUserId] = useState<string | null>(null);
+  const [storedSessionToken, setStoredSessionToken] = useState<string | null>(null);
+  const rotatingRef = useRef(false); // True while the guest token is being rotated
+  const hasRotatedRef = useRef(false); // Check for a due rotation once per page load
+  const [pendingGuestToken, setPendingGuestToken] = useState<string | null>(null);
+  const guestClaimPromptedRef = useRef(false); // Offer the guest claim once per page load
 
   // Clerk authentication
   const { isSignedIn, user: clerkUser, isLoaded } = useClerkUser();
 
   const createOrGetProfile = useMutation(api.users.createOrGetProfile);
+  const rotateSession = useMutation(api.users.rotateSession);
+  const revokeSession = useMutation(api.users.revokeSession);
+  const claimGuestProgress = useMutation(api.users.claimGuestProgress);
   const syncClerkUser = useMutation(api.users.syncClerkUser);
   const updateLastSeen = useMutation(api.users.updateLastSeen);
 
@@ -52,7 +67,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
   // Get user profile from Convex (for anonymous users)
   const anonymousProfile = useQuery(
     api.users.getProfile,
-    !isSignedIn && storedUserId ? { userId: storedUserId } : "skip"
+    !isSignedIn && storedSessionToken ? { sessionToken: storedSessionToken } : "skip"
   );
 
   // Get user profile from Convex (for Clerk users)
@@ -61,6 +76,12 @@ export function UserProvider({ children }: { children: ReactNode }) {
     isSignedIn && getTokenIdentifier() ? { tokenIdentifier: getTokenIdentifier()! } : "skip"
   );
 
+  // Guest progress left on this device that the Clerk user could claim
+  const guestClaim = useQuery(
+    api.users.getGuestClaim,
+    isSignedIn && clerkProfile && pendingGuestToken ? { sessionToken: pendingGuestToken } : "skip"
+  );
+
   // Sync Clerk user with Convex on sign in
   useEffect(() => {
     if (isLoaded && isSignedIn && clerkUser) {
@@ -77,12 +98,54 @@ export function UserProvider({ children }: { children: ReactNode }) {
     }
   }, [isLoaded, isSignedIn, clerkUser]);
 
+  // Pick up a guest session left in localStorage when signing in with Clerk
+  useEffect(() => {
+    if (isLoaded && isSignedIn) {
+      setPendingGuestToken(localStorage.getItem(SESSION_TOKEN_KEY));
+    }
+  }, [isLoaded, isSignedIn]);
+
+  // Offer to merge the guest's progress into the Clerk account
+  useEffect(() => {
+    if (!pendingGuestToken || guestClaim === undefined) return;
+
+    // Dead guest session: nothing left to claim
+    if (guestClaim === null) {
+      localStorage.removeItem(SESSION_TOKEN_KEY);
+      setPendingGuestToken(null);
+      return;
+    }
+
+    if (guestClaimPromptedRef.current) return;
+    guestClaimPromptedRef.current = true;
+
+    showAction(`Claim progress from guest "${guestClaim.username}"?`, {
+      description: `Level ${guestClaim.level} • ${guestClaim.exp} XP will be merged into your account`,
+      actionLabel: "Claim",
+      onAction: () => {
+        claimGuestProgress({ sessionToken: pendingGuestToken })
+          .then((result) => {
+            localStorage.removeItem(SESSION_TOKEN_KEY);
+            setPendingGuestToken(null);
+            showSuccess("Guest progress claimed!", `You are now Level ${result.levelInfo.level}`);
+          })
+          .catch((error: any) => {
+            showError("Failed to claim guest progress", error.message);
+          });
+      },
+      cancelLabel: "Not now",
+    });
+  }, [pendingGuestToken, guestClaim]);
+
   // Load anonymous user from localStorage on mount
   useEffect(() => {
     if (isLoaded && !isSignedIn) {
-      const savedUserId = localStorage.getItem("nretrocade_userId");
-      if (savedUserId) {
-        setStoredUserId(savedUserId);
+      // Raw user ids are no longer accepted as proof of identity
+      localStorage.removeItem("nretrocade_userId");
+
+      const savedSessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
+      if (savedSessionToken) {
+        setStoredSessionToken(savedSessionToken);
       } else {
         setIsLoading(false);
       }
@@ -97,9 +160,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
 
       // Update last seen periodically (every 2 minutes)
       const interval = setInterval(() => {
-        if (clerkProfile.userId) {
-          updateLastSeen({ userId: clerkProfile.userId }).catch(console.error);
-        }
+        updateLastSeen({}).catch(console.error);
       }, 2 * 60 * 1000);
 
       return () => clearInterval(interval);
@@ -108,20 +169,73 @@ export function UserProvider({ children }: { children: ReactNode }) {
 
   // Update current user when anonymous profile loads
   useEffect(() => {
-    if (!isSignedIn && anonymousProfile) {
+    if (isSignedIn || !storedSessionToken) return;
+
+    // Expired or revoked session: forget it and fall back to the login screen
+    if (anonymousProfile === null && !rotatingRef.current) {
+      // Another tab may have rotated the token; adopt its replacement instead
+      const latestToken = localStorage.getItem(SESSION_TOKEN_KEY);
+      if (latestToken && latestToken !== storedSessionToken) {
+        setStoredSessionToken(latestToken);
+        return;
+      }
+
+      localStorage.removeItem(SESSION_TOKEN_KEY);
+      setStoredSessionToken(null);
+      setCurrentUser(null);
+      setIsLoading(false);
+      return;
+    }
+
+    if (anonymousProfile) {
       setCurrentUser(anonymousProfile as User);
       setIsLoading(false);
 
+      // Swap the stored token for a fresh one once a day
+      const rotatedAt = Number(localStorage.getItem(SESSION_ROTATED_AT_KEY) ?? 0);
+      if (!hasRotatedRef.current && Date.now() - rotatedAt > SESSION_ROTATE_INTERVAL_MS) {
+        hasRotatedRef.current = true;
+        rotatingRef.current = true;
+        // Claim the rotation first so other tabs don't start their own
+        localStorage.setItem(SESSION_ROTATED_AT_KEY, String(Date.now()));
+        rotateSession({ sessionToken: storedSessionToken })
+          .then((result) => {
+            localStorage.setItem(SESSION_TOKEN_KEY, result.sessionToken);
+            setStoredSessionToken(result.sessionToken);
+          })
+          .catch(console.error)
+          .finally(() => {
+            rotatingRef.current = false;
+          });
+      }
+
       // Update last seen periodically (every 2 minutes)
       const interval = setInterval(() => {
-        if (anonymousProfile.userId) {
-          updateLastSeen({ userId: anonymousProfile.userId }).catch(console.error);
-        }
+        updateLastSeen({ sessionToken: storedSessionToken }).catch(console.error);
       }, 2 * 60 * 1000);
 
       return () => clearInterval(interval);
     }
-  }, [isSignedIn, anonymousProfile]);
+  }, [isSignedIn, anonymousProfile, storedSessionToken]);
+
+  // Follow guest token changes made in other tabs (rotation, login, logout)
+  useEffect(() => {
+    if (isSignedIn) return;
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== SESSION_TOKEN_KEY) return;
+
+      if (e.newValue) {
+        setStoredSessionToken(e.newValue);
+      } else {
+        setStoredSessionToken(null);
+        setCurrentUser(null);
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [isSignedIn]);
 
   // Anonymous login function (for backward compatibility)
   const login = async (username: string) => {
@@ -129,16 +243,18 @@ export function UserProvider({ children }: { children: ReactNode }) {
       setIsLoading(true);
 
       // Try to get existing user or create new one
-      const savedUserId = localStorage.getItem("nretrocade_userId");
+      const savedSessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
 
       const result = await createOrGetProfile({
-        userId: savedUserId || undefined,
+        sessionToken: savedSessionToken || undefined,
         username,
       });
 
-      // Save userId to localStorage
-      localStorage.setItem("nretrocade_userId", result.userId);
-      setStoredUserId(result.userId);
+      // Save session token to localStorage
+      hasRotatedRef.current = true; // createOrGetProfile already issued a fresh token
+      localStorage.setItem(SESSION_TOKEN_KEY, result.sessionToken);
+      localStorage.setItem(SESSION_ROTATED_AT_KEY, String(Date.now()));
+      setStoredSessionToken(result.sessionToken);
 
     } catch (error: any) {
       setIsLoading(false);
@@ -147,9 +263,12 @@ export function UserProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = () => {
-    localStorage.removeItem("nretrocade_userId");
+    if (storedSessionToken) {
+      revokeSession({ sessionToken: storedSessionToken }).catch(console.error);
+    }
+    localStorage.removeItem(SESSION_TOKEN_KEY);
     setCurrentUser(null);
-    setStoredUserId(null);
+    setStoredSessionToken(null);
   };
 
   return (
@@ -158,6 +277,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
         currentUser,
         isLoading: !isLoaded || isLoading,
         isClerkAuthenticated: isSignedIn || false,
+        sessionToken: !isSignedIn ? storedSessionToken ?? undefined : undefined,
         login,
         logout
       }}
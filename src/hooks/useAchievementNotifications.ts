@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { useUser } from '../contexts/UserContext';
+import { showCustom } from '../utils/notifications';
+
+/**
+ * Achievement unlock toasts
+ * Watches the caller's achievements and announces ones unlocked while the app is open
+ */
+export function useAchievementNotifications() {
+  const { currentUser, sessionToken } = useUser();
+  const achievements = useQuery(
+    api.achievements.getAchievements,
+    currentUser ? { sessionToken } : 'skip'
+  );
+
+  // Achievements already unlocked when we started watching (null until first load)
+  const knownRef = useRef<Set<string> | null>(null);
+
+  // Start over when the signed-in user changes
+  useEffect(() => {
+    knownRef.current = null;
+  }, [currentUser?._id]);
+
+  useEffect(() => {
+    if (!achievements) return;
+
+    const unlocked = achievements.filter((a) => a.unlockedAt !== null);
+
+    if (!knownRef.current) {
+      knownRef.current = new Set(unlocked.map((a) => a._id));
+      return;
+    }
+
+    for (const achievement of unlocked) {
+      if (knownRef.current.has(achievement._id)) continue;
+
+      knownRef.current.add(achievement._id);
+      showCustom(`Achievement unlocked: ${achievement.name}`, {
+        description: `${achievement.description} • +${achievement.expReward} XP`,
+        icon: achievement.icon,
+        duration: 6000,
+      });
+    }
+  }, [achievements]);
+}
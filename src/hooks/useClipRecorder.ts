@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Id } from '../../convex/_generated/dataModel';
+import { getGameAudioTrack } from '../utils/audioCapture';
+
+export const MAX_CLIP_SECONDS = 60;
+
+// Preferred formats, best first
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+export interface Recording {
+  blob: Blob;
+  url: string; // Object URL for previewing
+  duration: number; // Seconds
+  hasAudio: boolean;
+  gameId: Id<'games'>;
+  sessionId?: Id<'game_sessions'>;
+}
+
+interface RecordingTarget {
+  gameId: Id<'games'>;
+  sessionId?: Id<'game_sessions'>;
+}
+
+export const isClipRecordingSupported =
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype;
+
+/**
+ * Custom hook recording gameplay clips from the Ruffle canvas
+ *
+ * Records the canvas (plus game audio when the audio tap has it) for up to
+ * MAX_CLIP_SECONDS, then holds the recording for trimming and saving until it's
+ * discarded.
+ */
+export function useClipRecorder() {
+  const [status, setStatus] = useState<'idle' | 'recording' | 'recorded'>('idle');
+  const [elapsed, setElapsed] = useState(0); // Seconds recorded so far
+  const [recording, setRecording] = useState<Recording | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  const stop = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const start = useCallback((canvas: HTMLCanvasElement, target: RecordingTarget) => {
+    const stream = canvas.captureStream(30);
+    // A copy, so stopping the recording doesn't end the tap's track
+    const audioTrack = getGameAudioTrack()?.clone();
+    if (audioTrack) stream.addTrack(audioTrack);
+
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 2_500_000 });
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' });
+      urlRef.current = URL.createObjectURL(blob);
+      setRecording({
+        blob,
+        url: urlRef.current,
+        duration: Math.min((Date.now() - startedAt) / 1000, MAX_CLIP_SECONDS),
+        hasAudio: !!audioTrack,
+        ...target,
+      });
+      setStatus('recorded');
+    };
+
+    recorder.start(1000);
+    recorderRef.current = recorder;
+    setElapsed(0);
+    setStatus('recording');
+
+    timerRef.current = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_CLIP_SECONDS) stop();
+    }, 250);
+  }, [stop]);
+
+  const discard = useCallback(() => {
+    if (urlRef.current) {
+      URL.revokeObjectURL(urlRef.current);
+      urlRef.current = null;
+    }
+    setRecording(null);
+    setStatus('idle');
+  }, []);
+
+  // Don't leave the recorder running after the player closes
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current.stop();
+      }
+      if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    };
+  }, []);
+
+  return { status, elapsed, recording, start, stop, discard };
+}
@@ -0,0 +1,123 @@
+import { useCallback, useRef, useState } from 'react';
+import { useConvex, useMutation, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { useUser } from '../contexts/UserContext';
+import { readSharedObjects, SharedObjectSnapshot, writeSharedObjects } from '../utils/sharedObjects';
+
+export const SAVE_SLOTS = [1, 2, 3];
+
+const STORAGE_KEY_PREFIX = 'nretrocade-cloud-save-';
+
+// What this browser last synced for a game
+interface SyncState {
+  slot: number;
+  syncedAt?: number; // updatedAt of the cloud save last restored or written
+}
+
+function loadSyncState(gameId: string): SyncState {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_PREFIX + gameId) ?? 'null');
+    return SAVE_SLOTS.includes(stored?.slot) ? stored : { slot: 1 };
+  } catch {
+    return { slot: 1 };
+  }
+}
+
+function storeSyncState(gameId: string, state: SyncState) {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + gameId, JSON.stringify(state));
+  } catch (error) {
+    console.warn('[useCloudSaves] Failed to save sync state:', error);
+  }
+}
+
+function serialize(snapshot: SharedObjectSnapshot): string | null {
+  return Object.keys(snapshot.entries).length > 0 ? JSON.stringify(snapshot) : null;
+}
+
+/**
+ * Custom hook syncing a game's Ruffle SharedObjects with cloud save slots
+ *
+ * - restoreBeforeLoad: call before player.load(); restores the active slot when
+ *   the cloud copy is newer than what this browser last synced (newest wins),
+ *   or a specific slot picked by the player
+ * - capture: uploads the current SharedObjects to the active slot; refuses to
+ *   overwrite a slot another device has written since (returns 'conflict')
+ * - saveToSlot: uploads to a slot unconditionally and makes it active
+ */
+export function useCloudSaves(gameId: Id<'games'>) {
+  const { currentUser, sessionToken } = useUser();
+  const convex = useConvex();
+  const enabled = !!currentUser;
+
+  const slots = useQuery(api.gameSaves.getCloudSaves, enabled ? { sessionToken, gameId } : 'skip');
+  const saveCloudSave = useMutation(api.gameSaves.saveCloudSave);
+  const deleteCloudSave = useMutation(api.gameSaves.deleteCloudSave);
+
+  const [activeSlot, setActiveSlot] = useState(() => loadSyncState(gameId).slot);
+  const lastUploadedRef = useRef<string | null>(null);
+
+  const restoreBeforeLoad = useCallback(async (swfUrl: string, slot?: number) => {
+    if (!enabled) return null;
+
+    const state = loadSyncState(gameId);
+    const targetSlot = slot ?? state.slot;
+    const saves = await convex.query(api.gameSaves.getCloudSaves, { sessionToken, gameId });
+    const save = saves.find((s) => s.slot === targetSlot);
+
+    setActiveSlot(targetSlot);
+
+    if (!save || (slot === undefined && save.updatedAt <= (state.syncedAt ?? 0))) {
+      storeSyncState(gameId, { ...state, slot: targetSlot });
+      return null;
+    }
+
+    writeSharedObjects(swfUrl, JSON.parse(save.data) as SharedObjectSnapshot);
+    storeSyncState(gameId, { slot: targetSlot, syncedAt: save.updatedAt });
+    lastUploadedRef.current = save.data;
+    return save;
+  }, [enabled, gameId, sessionToken, convex]);
+
+  const capture = useCallback(async (swfUrl: string): Promise<'saved' | 'unchanged' | 'conflict'> => {
+    if (!enabled) return 'unchanged';
+
+    // Read synchronously so callers can capture right before the storage changes
+    const data = serialize(readSharedObjects(swfUrl));
+    if (!data || data === lastUploadedRef.current) return 'unchanged';
+
+    const state = loadSyncState(gameId);
+    const result = await saveCloudSave({
+      sessionToken,
+      gameId,
+      slot: state.slot,
+      data,
+      baseUpdatedAt: state.syncedAt ?? 0,
+    });
+
+    if (result.conflict) return 'conflict';
+
+    lastUploadedRef.current = data;
+    // Leave the sync state alone if a different slot was picked meanwhile
+    if (loadSyncState(gameId).slot === state.slot) {
+      storeSyncState(gameId, { slot: state.slot, syncedAt: result.updatedAt });
+    }
+    return 'saved';
+  }, [enabled, gameId, sessionToken, saveCloudSave]);
+
+  const saveToSlot = useCallback(async (swfUrl: string, slot: number) => {
+    const data = serialize(readSharedObjects(swfUrl));
+    if (!data) throw new Error('This game has no save data yet');
+
+    const result = await saveCloudSave({ sessionToken, gameId, slot, data });
+    lastUploadedRef.current = data;
+    storeSyncState(gameId, { slot, syncedAt: result.updatedAt });
+    setActiveSlot(slot);
+  }, [gameId, sessionToken, saveCloudSave]);
+
+  const deleteSlot = useCallback(async (slot: number) => {
+    await deleteCloudSave({ sessionToken, gameId, slot });
+  }, [gameId, sessionToken, deleteCloudSave]);
+
+  return { enabled, slots, activeSlot, restoreBeforeLoad, capture, saveToSlot, deleteSlot };
+}
@@ -0,0 +1,120 @@
+import { useEffect, useRef } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { showCustom, showError, showSuccess, showWarning } from '../utils/notifications';
+
+/**
+ * Functions an instrumented SWF can reach through ExternalInterface.call,
+ * e.g. ExternalInterface.call("nretro.submitScore", 1200)
+ */
+export interface NRetroBridge {
+  submitScore: (score: number) => void;
+  unlockAchievement: (achievementKey: string) => void;
+  gameOver: (score?: number) => void;
+  saveData: (data: unknown) => void;
+}
+
+declare global {
+  interface Window {
+    nretro?: NRetroBridge;
+  }
+}
+
+interface UseGameBridgeOptions {
+  enabled: boolean;
+  gameId: Id<"games">;
+  sessionToken: string | undefined;
+  onGameOver: () => Promise<void>;
+}
+
+/**
+ * Ruffle ExternalInterface bridge hook
+ * Exposes window.nretro while a game is running and routes calls to Convex
+ */
+export function useGameBridge({ enabled, gameId, sessionToken, onGameOver }: UseGameBridgeOptions) {
+  const submitScore = useMutation(api.gameScores.submitScore);
+  const unlockGameAchievement = useMutation(api.gameAchievements.unlockGameAchievement);
+  const saveData = useMutation(api.gameSaves.saveData);
+
+  // Keep the latest values so window.nretro stays stable across renders
+  const optionsRef = useRef({ gameId, sessionToken, onGameOver });
+  optionsRef.current = { gameId, sessionToken, onGameOver };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    /**
+     * Submit a score, reporting the outcome with a toast
+     */
+    const reportScore = async (score: unknown) => {
+      if (typeof score !== 'number' || !Number.isFinite(score)) {
+        console.warn('[nretro] Ignoring invalid score:', score);
+        return;
+      }
+
+      const { gameId, sessionToken } = optionsRef.current;
+      try {
+        const result = await submitScore({ sessionToken, gameId, score });
+        if (result.flagged) {
+          showWarning('Score under review', 'This score looks unusual and won\'t be ranked yet.');
+        } else {
+          showSuccess(`Score submitted: ${score.toLocaleString()}`);
+        }
+      } catch (error: any) {
+        showError('Failed to submit score', error.message);
+      }
+    };
+
+    const bridge: NRetroBridge = {
+      submitScore: (score) => {
+        void reportScore(score);
+      },
+
+      unlockAchievement: (achievementKey) => {
+        if (typeof achievementKey !== 'string') {
+          console.warn('[nretro] Ignoring invalid achievement key:', achievementKey);
+          return;
+        }
+
+        const { gameId, sessionToken } = optionsRef.current;
+        unlockGameAchievement({ sessionToken, gameId, achievementKey })
+          .then((result) => {
+            if (result.newlyUnlocked) {
+              showCustom('Achievement unlocked!', { description: achievementKey, icon: '🏆' });
+            }
+          })
+          .catch((error) => showError('Failed to unlock achievement', error.message));
+      },
+
+      gameOver: (score) => {
+        // Scores need the active session, so submit before the session is closed
+        const submit = score === undefined ? Promise.resolve() : reportScore(score);
+        submit
+          .then(() => optionsRef.current.onGameOver())
+          .catch(console.error);
+      },
+
+      saveData: (data) => {
+        // JSON.stringify returns undefined for undefined, functions and symbols
+        const serialized: string | undefined = typeof data === 'string' ? data : JSON.stringify(data);
+        if (serialized === undefined) {
+          showError('Failed to save progress', 'The game sent no data to save');
+          return;
+        }
+
+        const { gameId, sessionToken } = optionsRef.current;
+        saveData({ sessionToken, gameId, data: serialized })
+          .catch((error) => showError('Failed to save progress', error.message));
+      },
+    };
+
+    window.nretro = bridge;
+
+    return () => {
+      if (window.nretro === bridge) {
+        delete window.nretro;
+      }
+    };
+  }, [enabled, submitScore, unlockGameAchievement, saveData]);
+}
@@ -31,13 +31,14 @@ const ANALOG_THRESHOLD = 0.5;
 interface UseGameInputOptions {
   enabled: boolean;
   ruffleRef: React.RefObject<HTMLDivElement>;
+  onActivity?: () => void; // Called on each touch/controller press (for session heartbeats)
 }
 
 /**
  * Unified game input hook
  * Manages focus, keyboard event dispatch, and controller polling
  */
-export function useGameInput({ enabled, ruffleRef }: UseGameInputOptions) {
+export function useGameInput({ enabled, ruffleRef, onActivity }: UseGameInputOptions) {
   const activeKeysRef = useRef<Set<string>>(new Set());
   const gamepadStateRef = useRef<{ [key: string]: boolean }>({});
   const animationFrameRef = useRef<number | null>(null);
@@ -108,9 +109,10 @@ export function useGameInput({ enabled, ruffleRef }: UseGameInputOptions) {
     if (activeKeysRef.current.has(key)) return;
 
     activeKeysRef.current.add(key);
+    onActivity?.();
     focusCanvas(); // Ensure focus before input
     dispatchKeyEvent('keydown', key);
-  }, [focusCanvas, dispatchKeyEvent]);
+  }, [focusCanvas, dispatchKeyEvent, onActivity]);
 
   /**
    * Handle touch button release (from on-screen controls)
@@ -291,5 +293,6 @@ export function useGameInput({ enabled, ruffleRef }: UseGameInputOptions) {
     handleButtonDown,
     handleButtonUp,
     focusCanvas,
+    getRuffleCanvas,
   };
 }
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useCallback } from 'react';
+
+/**
+ * Events around the Ruffle container that count as player activity
+ */
+const ACTIVITY_EVENTS = ['keydown', 'mousedown', 'wheel', 'touchstart', 'pointermove'] as const;
+
+interface UseInputActivityOptions {
+  enabled: boolean;
+  containerRef: React.RefObject<HTMLDivElement | null>;
+}
+
+/**
+ * Input activity counter for session heartbeats
+ * Counts real keyboard/mouse/touch input on the Ruffle container; on-screen
+ * controls and gamepads report through recordActivity.
+ */
+export function useInputActivity({ enabled, containerRef }: UseInputActivityOptions) {
+  const countRef = useRef(0);
+
+  /**
+   * Record one input event (touch controls, gamepad)
+   */
+  const recordActivity = useCallback(() => {
+    countRef.current++;
+  }, []);
+
+  /**
+   * Return the number of input events since the last call and reset it
+   */
+  const consumeActivityCount = useCallback(() => {
+    const count = countRef.current;
+    countRef.current = 0;
+    return count;
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+
+    // Synthetic events (e.g. dispatched by useGameInput) are counted via recordActivity instead
+    const handleInput = (event: Event) => {
+      if (event.isTrusted) {
+        countRef.current++;
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => {
+      container.addEventListener(type, handleInput, { capture: true, passive: true });
+    });
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => {
+        container.removeEventListener(type, handleInput, { capture: true });
+      });
+    };
+  }, [enabled, containerRef]);
+
+  return {
+    recordActivity,
+    consumeActivityCount,
+  };
+}
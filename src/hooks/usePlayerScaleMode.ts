@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import { ScaleMode, SCALE_MODES } from '../utils/playerSizing';
+
+const STORAGE_KEY_PREFIX = 'nretrocade-scale-mode-';
+
+/**
+ * Read a game's remembered scale mode from localStorage (defaults to fit)
+ */
+function loadScaleMode(gameId: string): ScaleMode {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + gameId);
+    return SCALE_MODES.some((m) => m.value === stored) ? (stored as ScaleMode) : 'fit';
+  } catch {
+    return 'fit';
+  }
+}
+
+/**
+ * Custom hook for the player scale mode, remembered per game
+ * Returns the current mode and a setter that persists it
+ */
+export function usePlayerScaleMode(gameId: string) {
+  const [modes, setModes] = useState<Record<string, ScaleMode>>({});
+  const scaleMode = modes[gameId] ?? loadScaleMode(gameId);
+
+  const setScaleMode = useCallback((mode: ScaleMode) => {
+    setModes((prev) => ({ ...prev, [gameId]: mode }));
+    try {
+      localStorage.setItem(STORAGE_KEY_PREFIX + gameId, mode);
+    } catch (error) {
+      console.warn('[usePlayerScaleMode] Failed to save scale mode:', error);
+    }
+  }, [gameId]);
+
+  return { scaleMode, setScaleMode };
+}
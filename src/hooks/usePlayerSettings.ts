@@ -0,0 +1,98 @@
+import { useCallback, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { useUser } from '../contexts/UserContext';
+import { PlayerSettings, resolvePlayerSettings } from '../utils/playerSettings';
+
+const STORAGE_KEY = 'nretrocade-player-settings';
+
+// Guest settings kept in localStorage
+interface LocalPlayerSettings {
+  defaults: Partial<PlayerSettings>;
+  games: Record<string, Partial<PlayerSettings>>;
+}
+
+function loadLocalSettings(): LocalPlayerSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return { defaults: stored?.defaults ?? {}, games: stored?.games ?? {} };
+  } catch {
+    return { defaults: {}, games: {} };
+  }
+}
+
+function storeLocalSettings(settings: LocalPlayerSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[usePlayerSettings] Failed to save player settings:', error);
+  }
+}
+
+export type SettingsScope = 'defaults' | 'game';
+
+/**
+ * Custom hook for the Ruffle player settings of a game
+ *
+ * Signed-in players keep their defaults and per-game overrides in their account;
+ * guests keep them in localStorage. Returns the resolved settings, whether the
+ * game has overrides, and setters for either scope. `isLoaded` stays false until
+ * the account settings arrive so the game isn't loaded twice.
+ */
+export function usePlayerSettings(gameId: Id<'games'>) {
+  const { currentUser, sessionToken } = useUser();
+  const useAccount = !!currentUser && !currentUser.isAnonymous;
+
+  const saved = useQuery(api.userSettings.getPlayerSettings, useAccount ? { sessionToken, gameId } : 'skip');
+  const savePlayerSettings = useMutation(api.userSettings.savePlayerSettings);
+  const clearGameSettings = useMutation(api.userSettings.clearGameSettings);
+
+  const [local, setLocal] = useState(loadLocalSettings);
+
+  const defaults = useAccount ? saved?.defaults : local.defaults;
+  const override = useAccount ? saved?.override : local.games[gameId];
+  const settings = resolvePlayerSettings(defaults, override);
+
+  const updateSettings = useCallback(async (scope: SettingsScope, changes: Partial<PlayerSettings>) => {
+    if (useAccount) {
+      await savePlayerSettings({
+        sessionToken,
+        gameId: scope === 'game' ? gameId : undefined,
+        player: changes,
+      });
+      return;
+    }
+
+    setLocal((prev) => {
+      const next =
+        scope === 'game'
+          ? { ...prev, games: { ...prev.games, [gameId]: { ...prev.games[gameId], ...changes } } }
+          : { ...prev, defaults: { ...prev.defaults, ...changes } };
+      storeLocalSettings(next);
+      return next;
+    });
+  }, [useAccount, sessionToken, gameId, savePlayerSettings]);
+
+  const resetGameSettings = useCallback(async () => {
+    if (useAccount) {
+      await clearGameSettings({ sessionToken, gameId });
+      return;
+    }
+
+    setLocal((prev) => {
+      const { [gameId]: _removed, ...games } = prev.games;
+      const next = { ...prev, games };
+      storeLocalSettings(next);
+      return next;
+    });
+  }, [useAccount, sessionToken, gameId, clearGameSettings]);
+
+  return {
+    settings,
+    hasGameOverride: !!override && Object.keys(override).length > 0,
+    isLoaded: !useAccount || saved !== undefined,
+    updateSettings,
+    resetGameSettings,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Game audio capture
+ *
+ * Ruffle plays sound through Web Audio without exposing its AudioContext, so the
+ * tap wraps AudioNode.connect: whatever is connected to a context's speakers is
+ * also connected to a MediaStream destination that recordings can read.
+ * Install it before Ruffle creates its AudioContext.
+ */
+
+const taps = new Map<AudioContext, MediaStreamAudioDestinationNode>();
+let installed = false;
+
+function getTap(context: AudioContext): MediaStreamAudioDestinationNode {
+  let tap = taps.get(context);
+  if (!tap) {
+    tap = context.createMediaStreamDestination();
+    taps.set(context, tap);
+  }
+  return tap;
+}
+
+/**
+ * Mirror audio sent to any AudioContext's destination into a capturable stream
+ */
+export function installAudioTap() {
+  if (installed || typeof AudioNode === "undefined") return;
+  installed = true;
+
+  const proto = AudioNode.prototype as any;
+  const originalConnect: (...args: any[]) => any = proto.connect;
+  const originalDisconnect: (...args: any[]) => any = proto.disconnect;
+
+  AudioNode.prototype.connect = function (this: AudioNode, ...args: any[]) {
+    const result = originalConnect.apply(this, args);
+    if (args[0] instanceof AudioDestinationNode && this.context instanceof AudioContext) {
+      originalConnect.call(this, getTap(this.context));
+    }
+    return result;
+  } as typeof AudioNode.prototype.connect;
+
+  AudioNode.prototype.disconnect = function (this: AudioNode, ...args: any[]) {
+    const result = originalDisconnect.apply(this, args);
+    const tap = this.context instanceof AudioContext ? taps.get(this.context) : undefined;
+    if (tap && args[0] instanceof AudioDestinationNode) {
+      try {
+        originalDisconnect.call(this, tap);
+      } catch {
+        // Wasn't connected to the tap
+      }
+    }
+    return result;
+  } as typeof AudioNode.prototype.disconnect;
+}
+
+/**
+ * The audio track of the newest running AudioContext, if any has played sound
+ */
+export function getGameAudioTrack(): MediaStreamTrack | null {
+  let track: MediaStreamTrack | null = null;
+
+  for (const [context, tap] of taps) {
+    if (context.state === "closed") {
+      taps.delete(context);
+      continue;
+    }
+    track = tap.stream.getAudioTracks()[0] ?? track;
+  }
+
+  return track;
+}
@@ -0,0 +1,46 @@
+/**
+ * Ruffle canvas capture helpers
+ */
+
+export interface CapturedFrame {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/**
+ * Copy the canvas's current frame to a PNG
+ *
+ * Ruffle's WebGL canvas is cleared once the browser presents a frame, so the copy
+ * is taken in the next animation frame callback, right after Ruffle has drawn.
+ */
+export function captureCanvasFrame(canvas: HTMLCanvasElement): Promise<CapturedFrame> {
+  return new Promise((resolve, reject) => {
+    requestAnimationFrame(() => {
+      const copy = document.createElement("canvas");
+      copy.width = canvas.width;
+      copy.height = canvas.height;
+
+      const context = copy.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas capture is not supported in this browser"));
+        return;
+      }
+
+      try {
+        context.drawImage(canvas, 0, 0);
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error("Failed to capture the game"));
+        return;
+      }
+
+      copy.toBlob((blob) => {
+        if (blob) {
+          resolve({ blob, width: copy.width, height: copy.height });
+        } else {
+          reject(new Error("Failed to encode screenshot"));
+        }
+      }, "image/png");
+    });
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Shareable game links (/game/:gameId)
+ */
+
+// Matches a game link, absolute or site-relative, and captures the game id
+const GAME_LINK_PATTERN = /(?:https?:\/\/[^\s/]+)?\/game\/([a-z0-9]+)(?:\/play)?/gi;
+
+/**
+ * Absolute URL of a game's detail page
+ */
+export function getGameUrl(gameId: string): string {
+  return `${window.location.origin}/game/${gameId}`;
+}
+
+/**
+ * Split message text into plain text and game links
+ *
+ * @example
+ * splitGameLinks("try https://site/game/abc123!")
+ * // [{ text: "try " }, { text: "https://site/game/abc123", gameId: "abc123" }, { text: "!" }]
+ */
+export function splitGameLinks(text: string): { text: string; gameId?: string }[] {
+  const parts: { text: string; gameId?: string }[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(GAME_LINK_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, index) });
+    }
+    parts.push({ text: match[0], gameId: match[1] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex) });
+  }
+
+  return parts;
+}
@@ -154,6 +154,44 @@ export function showCustom(message: string, options?: {
   });
 }
 
+/**
+ * Show a notification that asks the user to choose an action
+ * Stays on screen until the user picks one of the buttons.
+ *
+ * @example
+ * showAction("Claim guest progress?", {
+ *   actionLabel: "Claim",
+ *   onAction: () => claim(),
+ *   cancelLabel: "Not now",
+ * })
+ */
+export function showAction(message: string, options: {
+  description?: string;
+  actionLabel: string;
+  onAction: () => void;
+  cancelLabel?: string;
+  onCancel?: () => void;
+}) {
+  return toast(message, {
+    description: options.description,
+    duration: Infinity,
+    action: {
+      label: options.actionLabel,
+      onClick: options.onAction,
+    },
+    cancel: options.cancelLabel
+      ? { label: options.cancelLabel, onClick: options.onCancel ?? (() => {}) }
+      : undefined,
+    style: {
+      background: "linear-gradient(135deg, #0891b2 0%, #a855f7 100%)",
+      border: "2px solid rgba(168, 85, 247, 0.5)",
+      color: "white",
+      backdropFilter: "blur(12px)",
+      boxShadow: "0 8px 32px rgba(168, 85, 247, 0.3)",
+    },
+  });
+}
+
 /**
  * Dismiss all active toasts
  */
@@ -0,0 +1,91 @@
+/**
+ * Ruffle player settings
+ * Defaults apply to every game; per-game overrides replace individual fields.
+ */
+
+export type Quality = 'low' | 'medium' | 'high' | 'best';
+export type Letterbox = 'off' | 'fullscreen' | 'on';
+export type StageScale = 'showAll' | 'exactFit' | 'noBorder' | 'noScale';
+export type Autoplay = 'auto' | 'on' | 'off';
+export type UnmuteOverlay = 'visible' | 'hidden';
+
+export interface PlayerSettings {
+  quality: Quality;
+  volume: number; // 0-1
+  letterbox: Letterbox;
+  scale: StageScale;
+  forceScale: boolean; // Ignore the SWF's own Stage.scaleMode changes
+  frameRate: number | null; // null keeps the SWF's frame rate
+  autoplay: Autoplay;
+  unmuteOverlay: UnmuteOverlay;
+}
+
+export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
+  quality: 'high',
+  volume: 1,
+  letterbox: 'fullscreen',
+  scale: 'showAll',
+  forceScale: false,
+  frameRate: null,
+  autoplay: 'auto',
+  unmuteOverlay: 'visible',
+};
+
+export const QUALITY_OPTIONS: { value: Quality; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'best', label: 'Best' },
+];
+
+export const LETTERBOX_OPTIONS: { value: Letterbox; label: string }[] = [
+  { value: 'fullscreen', label: 'In fullscreen' },
+  { value: 'on', label: 'Always' },
+  { value: 'off', label: 'Never' },
+];
+
+export const STAGE_SCALE_OPTIONS: { value: StageScale; label: string }[] = [
+  { value: 'showAll', label: 'Show all' },
+  { value: 'noBorder', label: 'No border (crop)' },
+  { value: 'exactFit', label: 'Stretch' },
+  { value: 'noScale', label: 'No scale' },
+];
+
+export const FRAME_RATE_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Game default' },
+  { value: 24, label: '24 fps' },
+  { value: 30, label: '30 fps' },
+  { value: 60, label: '60 fps' },
+];
+
+export const AUTOPLAY_OPTIONS: { value: Autoplay; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'on', label: 'On' },
+  { value: 'off', label: 'Click to play' },
+];
+
+/**
+ * Merge saved defaults and a game's overrides over the built-in defaults
+ */
+export function resolvePlayerSettings(
+  defaults?: Partial<PlayerSettings> | null,
+  override?: Partial<PlayerSettings> | null
+): PlayerSettings {
+  return { ...DEFAULT_PLAYER_SETTINGS, ...defaults, ...override };
+}
+
+/**
+ * Ruffle load() options for the settings (volume is set on the player instead)
+ * The Fill scale mode stretches the stage whatever the scale setting says.
+ */
+export function toRuffleConfig(settings: PlayerSettings, isFillMode: boolean) {
+  return {
+    quality: settings.quality,
+    letterbox: settings.letterbox,
+    scale: isFillMode ? 'exactFit' : settings.scale,
+    forceScale: settings.forceScale,
+    frameRate: settings.frameRate,
+    autoplay: settings.autoplay,
+    unmuteOverlay: settings.unmuteOverlay,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Player Sizing Utility
+ *
+ * Computes the Ruffle player size for a game's native stage dimensions.
+ * Sizes are snapped to the device pixel grid so games don't render blurry.
+ */
+
+/**
+ * How the game is scaled into the available area
+ * - fit: largest size that keeps the aspect ratio
+ * - integer: largest whole-number multiple of the stage (in device pixels)
+ * - fill: stretch to the whole area, ignoring the aspect ratio
+ */
+export type ScaleMode = "fit" | "integer" | "fill";
+
+export const SCALE_MODES: { value: ScaleMode; label: string }[] = [
+  { value: "fit", label: "Fit" },
+  { value: "integer", label: "Pixel Perfect" },
+  { value: "fill", label: "Fill" },
+];
+
+export interface PlayerSizeInput {
+  stageWidth?: number;     // Native SWF stage size (unknown for unscanned games)
+  stageHeight?: number;
+  availableWidth: number;  // CSS pixels
+  availableHeight: number;
+  devicePixelRatio: number;
+  mode: ScaleMode;
+}
+
+/**
+ * Compute the player size in CSS pixels
+ *
+ * @example
+ * computePlayerSize({ stageWidth: 550, stageHeight: 400, availableWidth: 896,
+ *   availableHeight: 700, devicePixelRatio: 1, mode: "integer" }) // { width: 550, height: 400 }
+ */
+export function computePlayerSize({
+  stageWidth,
+  stageHeight,
+  availableWidth,
+  availableHeight,
+  devicePixelRatio,
+  mode,
+}: PlayerSizeInput): { width: number; height: number } {
+  const dpr = devicePixelRatio > 0 ? devicePixelRatio : 1;
+  const width = Math.max(availableWidth, 0);
+  const height = Math.max(availableHeight, 0);
+
+  // Without stage dimensions there's no aspect ratio to keep
+  if (mode === "fill" || !stageWidth || !stageHeight) {
+    return { width, height };
+  }
+
+  const fitScale = Math.min(width / stageWidth, height / stageHeight);
+
+  if (mode === "integer") {
+    // Whole multiples of the stage in device pixels, so every game pixel maps to the same number of screen pixels
+    const deviceScale = Math.floor(fitScale * dpr);
+    if (deviceScale >= 1) {
+      return {
+        width: (stageWidth * deviceScale) / dpr,
+        height: (stageHeight * deviceScale) / dpr,
+      };
+    }
+    // The stage doesn't fit even at 1:1; fall back to fit
+  }
+
+  return {
+    width: Math.floor(stageWidth * fitScale * dpr) / dpr,
+    height: Math.floor(stageHeight * fitScale * dpr) / dpr,
+  };
+}
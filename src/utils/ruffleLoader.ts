@@ -0,0 +1,88 @@
+/**
+ * Ruffle loader
+ *
+ * Loads the version-pinned @ruffle-rs/ruffle package that vite.config.ts serves
+ * from our own origin, falling back to a mirror (VITE_RUFFLE_MIRROR_URL, or
+ * unpkg pinned to the same version) so one bad CDN nightly can't break games.
+ */
+
+export const RUFFLE_VERSION = __RUFFLE_VERSION__;
+
+const SELF_HOSTED_URL = `/ruffle/${RUFFLE_VERSION}/ruffle.js`;
+const MIRROR_URL =
+  import.meta.env.VITE_RUFFLE_MIRROR_URL ||
+  `https://unpkg.com/@ruffle-rs/ruffle@${RUFFLE_VERSION}/ruffle.js`;
+
+// Give up on a source that hasn't loaded after this long
+const SCRIPT_TIMEOUT_MS = 15000;
+
+export type RuffleSource = "self-hosted" | "mirror";
+
+export interface LoadedRuffle {
+  ruffle: any; // Ruffle's SourceAPI (createPlayer, version)
+  version: string;
+  source: RuffleSource;
+}
+
+let loading: Promise<LoadedRuffle> | null = null;
+
+function injectScript(src: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    const timeout = setTimeout(() => {
+      script.remove();
+      reject(new Error(`Timed out loading ${src}`));
+    }, SCRIPT_TIMEOUT_MS);
+
+    script.src = src;
+    script.async = true;
+    script.onload = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    script.onerror = () => {
+      clearTimeout(timeout);
+      script.remove();
+      reject(new Error(`Failed to load ${src}`));
+    };
+    document.body.appendChild(script);
+  });
+}
+
+async function loadFrom(src: string, source: RuffleSource): Promise<LoadedRuffle> {
+  await injectScript(src);
+
+  const ruffle = (window as any).RufflePlayer?.newest?.();
+  if (!ruffle) {
+    throw new Error(`RufflePlayer not found on window after loading ${src}`);
+  }
+
+  // Reported as "<version>+<build date>"
+  const version = String(ruffle.version ?? RUFFLE_VERSION).split("+")[0];
+  if (version !== RUFFLE_VERSION) {
+    console.warn(`[ruffleLoader] Expected Ruffle ${RUFFLE_VERSION}, ${source} copy is ${version}`);
+  }
+
+  return { ruffle, version, source };
+}
+
+/**
+ * Load Ruffle once per page (self-hosted first, then the mirror)
+ */
+export function loadRuffle(): Promise<LoadedRuffle> {
+  if (!loading) {
+    loading = loadFrom(SELF_HOSTED_URL, "self-hosted")
+      .catch((error) => {
+        console.warn("[ruffleLoader] Self-hosted Ruffle failed, trying mirror:", error);
+        delete (window as any).RufflePlayer;
+        return loadFrom(MIRROR_URL, "mirror");
+      })
+      .catch((error) => {
+        // Let the next game try again
+        loading = null;
+        throw error;
+      });
+  }
+
+  return loading;
+}
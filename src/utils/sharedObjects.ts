@@ -0,0 +1,103 @@
+/**
+ * Ruffle SharedObject storage helpers
+ *
+ * Ruffle keeps each Flash SharedObject in localStorage under
+ * "<swf host>/<localPath>/<name>", where localPath defaults to the SWF's path and
+ * may only be a prefix of it. A game's entries are the keys on its SWF's host
+ * whose localPath is a prefix of the SWF path on whole segments (like Flash,
+ * games on one host that use localPath "/" share those objects).
+ */
+
+/**
+ * A game's SharedObjects, with keys stored relative to the SWF host so a save
+ * still restores after the SWF moves (re-upload, new storage URL)
+ */
+export interface SharedObjectSnapshot {
+  swfPath: string;
+  entries: Record<string, string>;
+}
+
+function parseSwfLocation(swfUrl: string): { host: string; path: string } {
+  const url = new URL(swfUrl, window.location.href);
+  return {
+    host: url.protocol === "file:" ? "localhost" : url.host,
+    path: url.pathname.replace(/^\/+/, ""),
+  };
+}
+
+/**
+ * The localPath part of a SharedObject key, or null if the key isn't on this host
+ */
+function getLocalPath(key: string, host: string): string | null {
+  if (!key.startsWith(`${host}/`)) return null;
+
+  const rest = key.slice(host.length + 1).replace(/^\/+/, "");
+  return rest.slice(0, Math.max(rest.lastIndexOf("/"), 0)).replace(/\/+$/, "");
+}
+
+/**
+ * Whether a localPath covers the SWF path, matching whole path segments only
+ */
+function coversSwfPath(localPath: string, swfPath: string): boolean {
+  return localPath === "" || swfPath === localPath || swfPath.startsWith(`${localPath}/`);
+}
+
+/**
+ * Find the game's SharedObject keys in localStorage
+ */
+function findSharedObjectKeys(host: string, swfPath: string): string[] {
+  const keys: string[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const localPath = key ? getLocalPath(key, host) : null;
+    if (key && localPath !== null && coversSwfPath(localPath, swfPath)) {
+      keys.push(key);
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Read a game's SharedObjects from localStorage
+ */
+export function readSharedObjects(swfUrl: string): SharedObjectSnapshot {
+  const { host, path } = parseSwfLocation(swfUrl);
+  const entries: Record<string, string> = {};
+
+  for (const key of findSharedObjectKeys(host, path)) {
+    entries[key.slice(host.length)] = localStorage.getItem(key) ?? "";
+  }
+
+  return { swfPath: path, entries };
+}
+
+/**
+ * Restore a game's SharedObjects into localStorage (call before the SWF loads)
+ * Objects saved under the SWF's old path are moved to its current path. The game's
+ * own objects missing from the snapshot are removed; objects shared with other games
+ * on the host (a shorter localPath) are only overwritten when the snapshot has them.
+ */
+export function writeSharedObjects(swfUrl: string, snapshot: SharedObjectSnapshot) {
+  const { host, path } = parseSwfLocation(swfUrl);
+
+  const restored = new Map<string, string>();
+  for (const [relativeKey, value] of Object.entries(snapshot.entries)) {
+    const movedKey =
+      snapshot.swfPath && snapshot.swfPath !== path
+        ? relativeKey.replace(snapshot.swfPath, path)
+        : relativeKey;
+    restored.set(host + movedKey, value);
+  }
+
+  for (const key of findSharedObjectKeys(host, path)) {
+    if (getLocalPath(key, host) === path && !restored.has(key)) {
+      localStorage.removeItem(key);
+    }
+  }
+
+  for (const [key, value] of restored) {
+    localStorage.setItem(key, value);
+  }
+}
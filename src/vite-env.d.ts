@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+// Version of the bundled @ruffle-rs/ruffle package (set in vite.config.ts)
+declare const __RUFFLE_VERSION__: string;
+
+interface ImportMetaEnv {
+  // Fallback Ruffle script URL used when the self-hosted copy fails to load
+  readonly VITE_RUFFLE_MIRROR_URL?: string;
+}
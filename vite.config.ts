@@ -1,11 +1,50 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import fs from "fs";
 import path from "path";
 
+const RUFFLE_DIR = path.resolve(__dirname, "node_modules/@ruffle-rs/ruffle");
+const RUFFLE_VERSION: string = JSON.parse(
+  fs.readFileSync(path.join(RUFFLE_DIR, "package.json"), "utf8")
+).version;
+
+/**
+ * Serve the pinned @ruffle-rs/ruffle package from our own origin at
+ * /ruffle/<version>/ (dev middleware; copied into the build output)
+ * The loader in src/utils/ruffleLoader.ts falls back to a mirror if this fails.
+ */
+function selfHostRuffle(): Plugin {
+  const base = `/ruffle/${RUFFLE_VERSION}/`;
+  const files = fs.readdirSync(RUFFLE_DIR).filter((file) => /\.(js|wasm)$/.test(file));
+
+  return {
+    name: "self-host-ruffle",
+    configureServer(server) {
+      server.middlewares.use(base, (req, res, next) => {
+        const file = req.url?.split("?")[0].replace(/^\//, "");
+        if (!file || !files.includes(file)) return next();
+
+        res.setHeader("Content-Type", file.endsWith(".wasm") ? "application/wasm" : "text/javascript");
+        fs.createReadStream(path.join(RUFFLE_DIR, file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of files) {
+        this.emitFile({
+          type: "asset",
+          fileName: `${base.slice(1)}${file}`,
+          source: fs.readFileSync(path.join(RUFFLE_DIR, file)),
+        });
+      }
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => ({
   plugins: [
     react(),
+    selfHostRuffle(),
     // The code below enables dev tools like taking screenshots of your site
     // while it is being developed on chef.convex.dev.
     // Feel free to remove this code if you're no longer developing your app with Chef.
@@ -35,6 +74,9 @@ window.addEventListener('message', async (message) => {
       : null,
     // End of code for taking screenshots on chef.convex.dev.
   ].filter(Boolean),
+  define: {
+    __RUFFLE_VERSION__: JSON.stringify(RUFFLE_VERSION),
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),